@@ -41,9 +41,9 @@ export class DuplicateTaskNameError extends UnexpectedStateError {
 export class UnexpectedTaskInstructionsError extends UnexpectedStateError {
   public taskName: string;
 
-  public unexpectedTaskInstructions: string[];
+  public unexpectedTaskInstructions: unknown;
 
-  public constructor (taskName: string, unexpectedTaskInstructions: string[]) {
+  public constructor (taskName: string, unexpectedTaskInstructions: unknown) {
     super(
       'Unexpected task instructions.',
       'UNEXPECTED_TASK_INSTRUCTIONS',
@@ -53,3 +53,133 @@ export class UnexpectedTaskInstructionsError extends UnexpectedStateError {
     this.unexpectedTaskInstructions = unexpectedTaskInstructions;
   }
 }
+
+export class ScheduleTimeoutError extends UnexpectedStateError {
+  public scheduleTimeout: number;
+
+  public taskName: string;
+
+  public constructor (taskName: string, scheduleTimeout: number) {
+    super(
+      'Task scheduler did not produce a result within ' + scheduleTimeout + 'ms.',
+      'SCHEDULE_TIMEOUT',
+    );
+
+    this.scheduleTimeout = scheduleTimeout;
+    this.taskName = taskName;
+  }
+}
+
+export class TerminationTimeoutError extends UnexpectedStateError {
+  public taskNames: string[];
+
+  public timeout: number;
+
+  public constructor (taskNames: string[], timeout: number) {
+    super(
+      'Tasks did not terminate within ' + timeout + 'ms.',
+      'TERMINATION_TIMEOUT',
+    );
+
+    this.taskNames = taskNames;
+    this.timeout = timeout;
+  }
+}
+
+export class UnknownTaskNameError extends UnexpectedStateError {
+  public taskName: string;
+
+  public constructor (taskName: string) {
+    super(
+      'Task does not exist.',
+      'UNKNOWN_TASK_NAME',
+    );
+
+    this.taskName = taskName;
+  }
+}
+
+export class TaskCallbackError extends UnexpectedStateError {
+  public callbackName: string;
+
+  public originalError: Error;
+
+  public taskName: string;
+
+  public constructor (taskName: string, callbackName: string, originalError: Error, code: string) {
+    super(
+      callbackName + ' produced an error.',
+      code,
+    );
+
+    this.callbackName = callbackName;
+    this.originalError = originalError;
+    this.taskName = taskName;
+  }
+}
+
+export class GetActiveTaskInstructionsError extends TaskCallbackError {
+  public constructor (taskName: string, originalError: Error) {
+    super(
+      taskName,
+      'getActiveTaskInstructions',
+      originalError,
+      'GET_ACTIVE_TASK_INSTRUCTIONS_ERROR',
+    );
+  }
+}
+
+export class CalculateDelayError extends TaskCallbackError {
+  public constructor (taskName: string, originalError: Error) {
+    super(
+      taskName,
+      'calculateDelay',
+      originalError,
+      'CALCULATE_DELAY_ERROR',
+    );
+  }
+}
+
+export class CalculateLimitError extends TaskCallbackError {
+  public constructor (taskName: string, originalError: Error) {
+    super(
+      taskName,
+      'calculateLimit',
+      originalError,
+      'CALCULATE_LIMIT_ERROR',
+    );
+  }
+}
+
+export class GetInstructionKeyError extends TaskCallbackError {
+  public constructor (taskName: string, originalError: Error) {
+    super(
+      taskName,
+      'getInstructionKey',
+      originalError,
+      'GET_INSTRUCTION_KEY_ERROR',
+    );
+  }
+}
+
+export class TaskListenerError extends TaskCallbackError {
+  public constructor (taskName: string, originalError: Error) {
+    super(
+      taskName,
+      'task listener',
+      originalError,
+      'TASK_LISTENER_ERROR',
+    );
+  }
+}
+
+export class LockAdapterError extends TaskCallbackError {
+  public constructor (taskName: string, methodName: string, originalError: Error) {
+    super(
+      taskName,
+      'lockAdapter.' + methodName,
+      originalError,
+      'LOCK_ADAPTER_ERROR',
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// @ts-expect-error -- types not available
+import Deferred from 'promise-deferred';
+import type {
+  Clock,
+} from '../types';
+import {
+  createSystemClock,
+} from './createSystemClock';
+
+type GetActiveTaskInstructionsBatch = (taskNames: string[]) => Promise<Partial<Record<string, unknown[]>>>;
+
+type PendingLoad = {
+  readonly promise: Promise<unknown[]>,
+  readonly reject: (error: unknown) => void,
+  readonly resolve: (activeTaskInstructions: unknown[]) => void,
+};
+
+/**
+ * @property load Produces the active task instructions of the task. Loads that are requested within the batch window share a single `getActiveTaskInstructionsBatch` call.
+ */
+export type ActiveTaskInstructionsBatcher = {
+  readonly load: (taskName: string) => Promise<unknown[]>,
+};
+
+/**
+ * Coalesces the active task instruction lookups of multiple tasks into a single `getActiveTaskInstructionsBatch` call.
+ * The batch is dispatched `batchWindow` milliseconds after the first lookup of the batch.
+ */
+export const createActiveTaskInstructionsBatcher = (
+  getActiveTaskInstructionsBatch: GetActiveTaskInstructionsBatch,
+  batchWindow: number,
+  clock: Clock = createSystemClock(),
+): ActiveTaskInstructionsBatcher => {
+  let pendingLoads = new Map<string, PendingLoad>();
+
+  const dispatchBatch = async () => {
+    const batch = pendingLoads;
+
+    pendingLoads = new Map();
+
+    try {
+      const activeTaskInstructionsByTaskName = await getActiveTaskInstructionsBatch([
+        ...batch.keys(),
+      ]);
+
+      for (const [
+        taskName,
+        pendingLoad,
+      ] of batch) {
+        // Tasks that are missing from the result do not have active task instructions.
+        pendingLoad.resolve(activeTaskInstructionsByTaskName[taskName] ?? []);
+      }
+    } catch (error) {
+      for (const pendingLoad of batch.values()) {
+        pendingLoad.reject(error);
+      }
+    }
+  };
+
+  return {
+    load: async (taskName) => {
+      const existingLoad = pendingLoads.get(taskName);
+
+      if (existingLoad) {
+        return await existingLoad.promise;
+      }
+
+      const pendingLoad: PendingLoad = new Deferred();
+
+      if (pendingLoads.size === 0) {
+        clock.setTimeout(() => {
+          void dispatchBatch();
+        }, batchWindow);
+      }
+
+      pendingLoads.set(taskName, pendingLoad);
+
+      return await pendingLoad.promise;
+    },
+  };
+};
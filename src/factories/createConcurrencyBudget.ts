@@ -0,0 +1,114 @@
+/**
+ * @property activeCount The number of active task instructions observed in the last scheduling cycle (including task instructions dispatched since).
+ * @property demand Budget (in weight units) that the task could not reserve in the last scheduling cycle.
+ * @property reservedCount The number of task instructions that the in-flight scheduling cycle may dispatch.
+ */
+type BudgetEntry = {
+  activeCount: number,
+  demand: number,
+  readonly priority: number,
+  reservedCount: number,
+  readonly weight: number,
+};
+
+/**
+ * @property commit Records the task instructions dispatched by the scheduling cycle and releases the rest of the reservation.
+ * @property register Adds the task to the budget.
+ * @property reserve Produces the limit that the task can use given the per-task limit and the remaining global budget, and reserves it until `commit`.
+ * @property setActiveCount Records the number of the task active task instructions.
+ * @property unregister Removes the task from the budget, releasing everything that the task has used.
+ * @property withdraw Withdraws the task demand, i.e. lower priority tasks are no longer held back by the task.
+ */
+export type ConcurrencyBudget = {
+  readonly commit: (taskName: string, dispatchedCount: number) => void,
+  readonly register: (taskName: string, weight: number, priority: number) => void,
+  readonly reserve: (taskName: string, limit: number) => number,
+  readonly setActiveCount: (taskName: string, activeCount: number) => void,
+  readonly unregister: (taskName: string) => void,
+  readonly withdraw: (taskName: string) => void,
+};
+
+/**
+ * Shares `globalConcurrency` between tasks. Every active task instruction uses `weight` units of the budget.
+ *
+ * When the budget is contended, the budget that higher priority tasks could not reserve is withheld from lower priority tasks.
+ */
+export const createConcurrencyBudget = (globalConcurrency: number): ConcurrencyBudget => {
+  const entries = new Map<string, BudgetEntry>();
+
+  const getRemainingBudget = (taskName: string, priority: number): number => {
+    let remainingBudget = globalConcurrency;
+
+    for (const [
+      otherTaskName,
+      otherEntry,
+    ] of entries) {
+      if (otherTaskName === taskName) {
+        continue;
+      }
+
+      remainingBudget -= (otherEntry.activeCount + otherEntry.reservedCount) * otherEntry.weight;
+
+      if (otherEntry.priority > priority) {
+        remainingBudget -= otherEntry.demand;
+      }
+    }
+
+    return remainingBudget;
+  };
+
+  return {
+    commit: (taskName, dispatchedCount) => {
+      const entry = entries.get(taskName);
+
+      if (entry) {
+        entry.activeCount += dispatchedCount;
+        entry.reservedCount = 0;
+      }
+    },
+    register: (taskName, weight, priority) => {
+      entries.set(taskName, {
+        activeCount: 0,
+        demand: 0,
+        priority,
+        reservedCount: 0,
+        weight,
+      });
+    },
+    reserve: (taskName, limit) => {
+      const entry = entries.get(taskName);
+
+      if (!entry) {
+        return limit;
+      }
+
+      const remainingBudget = getRemainingBudget(taskName, entry.priority) - entry.activeCount * entry.weight;
+
+      const budgetLimit = Math.max(0, Math.floor(remainingBudget / entry.weight));
+
+      const reservedCount = Math.min(limit, budgetLimit);
+
+      entry.demand = (limit - reservedCount) * entry.weight;
+      entry.reservedCount = reservedCount;
+
+      return reservedCount;
+    },
+    setActiveCount: (taskName, activeCount) => {
+      const entry = entries.get(taskName);
+
+      if (entry) {
+        entry.activeCount = activeCount;
+      }
+    },
+    unregister: (taskName) => {
+      entries.delete(taskName);
+    },
+    withdraw: (taskName) => {
+      const entry = entries.get(taskName);
+
+      if (entry) {
+        entry.demand = 0;
+      }
+    },
+  };
+};
@@ -0,0 +1,30 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import type {
+  CalculateDelay,
+} from '../types';
+
+/**
+ * @property delay Time in milliseconds to wait between every attempt.
+ */
+type ConstantBackoffConfiguration = {
+  readonly delay: number,
+};
+
+/**
+ * Produces `calculateDelay` that waits the same amount of time regardless of the attempt number.
+ */
+export const createConstantBackoff = (configuration: ConstantBackoffConfiguration): CalculateDelay => {
+  const {
+    delay,
+  } = configuration;
+
+  if (delay < 0) {
+    throw new UnexpectedStateError('Delay must be greater than or equal to 0.');
+  }
+
+  return () => {
+    return delay;
+  };
+};
@@ -0,0 +1,288 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import {
+  createWallClock,
+} from './createWallClock';
+
+/**
+ * @property next Produces the first instant strictly after `after` that matches the cron expression, or `null` if there is none.
+ */
+export type CronSchedule = {
+  readonly next: (after: Date) => Date | null,
+};
+
+type FieldDefinition = {
+  readonly maximum: number,
+  readonly minimum: number,
+  readonly name: string,
+  readonly names?: readonly string[],
+};
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+
+const WEEKDAY_NAMES = [
+  'SUN',
+  'MON',
+  'TUE',
+  'WED',
+  'THU',
+  'FRI',
+  'SAT',
+];
+
+const SECOND_FIELD: FieldDefinition = {
+  maximum: 59,
+  minimum: 0,
+  name: 'second',
+};
+
+const MINUTE_FIELD: FieldDefinition = {
+  maximum: 59,
+  minimum: 0,
+  name: 'minute',
+};
+
+const HOUR_FIELD: FieldDefinition = {
+  maximum: 23,
+  minimum: 0,
+  name: 'hour',
+};
+
+const DAY_OF_MONTH_FIELD: FieldDefinition = {
+  maximum: 31,
+  minimum: 1,
+  name: 'day of month',
+};
+
+const MONTH_FIELD: FieldDefinition = {
+  maximum: 12,
+  minimum: 1,
+  name: 'month',
+  names: MONTH_NAMES,
+};
+
+// 7 is an alias of 0 (Sunday).
+const DAY_OF_WEEK_FIELD: FieldDefinition = {
+  maximum: 7,
+  minimum: 0,
+  name: 'day of week',
+  names: WEEKDAY_NAMES,
+};
+
+const MACROS: Record<string, string> = {
+  '@annually': '0 0 1 1 *',
+  '@daily': '0 0 * * *',
+  '@hourly': '0 * * * *',
+  '@midnight': '0 0 * * *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@yearly': '0 0 1 1 *',
+};
+
+/**
+ * Limits how far into the future `next` searches for a matching instant.
+ * The longest legitimate gap between two matches (e.g. "29th of February on a Monday") is 28 years.
+ */
+const MAXIMUM_SEARCH_YEARS = 30;
+
+const parseValue = (field: FieldDefinition, value: string): number => {
+  const nameIndex = field.names ? field.names.indexOf(value.toUpperCase()) : -1;
+
+  if (nameIndex !== -1) {
+    return field.minimum === 0 ? nameIndex : nameIndex + 1;
+  }
+
+  if (!/^\d+$/u.test(value)) {
+    throw new UnexpectedStateError('Cron expression ' + field.name + ' field contains an invalid value "' + value + '".');
+  }
+
+  const number = Number(value);
+
+  if (number < field.minimum || number > field.maximum) {
+    throw new UnexpectedStateError('Cron expression ' + field.name + ' field value "' + value + '" is out of range (' + field.minimum + '-' + field.maximum + ').');
+  }
+
+  return number;
+};
+
+const parseField = (field: FieldDefinition, expression: string): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of expression.split(',')) {
+    const [
+      range,
+      stepExpression,
+      ...rest
+    ] = part.split('/');
+
+    if (rest.length > 0 || !range) {
+      throw new UnexpectedStateError('Cron expression ' + field.name + ' field is invalid.');
+    }
+
+    let step = 1;
+
+    if (stepExpression !== undefined) {
+      if (!/^\d+$/u.test(stepExpression) || Number(stepExpression) === 0) {
+        throw new UnexpectedStateError('Cron expression ' + field.name + ' field contains an invalid step "' + stepExpression + '".');
+      }
+
+      step = Number(stepExpression);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = field.minimum;
+      end = field.maximum;
+    } else if (range.includes('-')) {
+      const [
+        startExpression,
+        endExpression,
+      ] = range.split('-');
+
+      start = parseValue(field, startExpression);
+      end = parseValue(field, endExpression);
+
+      if (start > end) {
+        throw new UnexpectedStateError('Cron expression ' + field.name + ' field contains an invalid range "' + range + '".');
+      }
+    } else {
+      start = parseValue(field, range);
+      end = stepExpression === undefined ? start : field.maximum;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parses a cron expression.
+ *
+ * Supports the standard 5 field syntax (minute, hour, day of month, month, day of week),
+ * an optional leading seconds field, month and weekday names, and the "@daily"-style macros.
+ * Time zones are resolved using the time zone database that is built into the runtime (`Intl`).
+ */
+export const createCronSchedule = (expression: string, timeZone?: string): CronSchedule => {
+  const normalizedExpression = MACROS[expression.trim()] ?? expression.trim();
+
+  const fields = normalizedExpression.split(/\s+/u);
+
+  if (fields.length === 5) {
+    fields.unshift('0');
+  }
+
+  if (fields.length !== 6) {
+    throw new UnexpectedStateError('Cron expression must have 5 or 6 fields.');
+  }
+
+  const seconds = parseField(SECOND_FIELD, fields[0]);
+  const minutes = parseField(MINUTE_FIELD, fields[1]);
+  const hours = parseField(HOUR_FIELD, fields[2]);
+  const daysOfMonth = parseField(DAY_OF_MONTH_FIELD, fields[3]);
+  const months = parseField(MONTH_FIELD, fields[4]);
+  const daysOfWeek = parseField(DAY_OF_WEEK_FIELD, fields[5]);
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  // When both day of month and day of week are restricted, cron matches days that satisfy either of them.
+  const dayOfMonthRestricted = !fields[3].startsWith('*');
+  const dayOfWeekRestricted = !fields[5].startsWith('*');
+
+  const matchesDay = (date: Date): boolean => {
+    const dayOfMonthMatches = daysOfMonth.has(date.getUTCDate());
+    const dayOfWeekMatches = daysOfWeek.has(date.getUTCDay());
+
+    if (dayOfMonthRestricted && dayOfWeekRestricted) {
+      return dayOfMonthMatches || dayOfWeekMatches;
+    }
+
+    return dayOfMonthMatches && dayOfWeekMatches;
+  };
+
+  /**
+   * Produces the first wall clock timestamp at or after `from` that matches the expression.
+   */
+  const nextWallClockTimestamp = (from: number): number | null => {
+    const date = new Date(from);
+
+    const lastYear = date.getUTCFullYear() + MAXIMUM_SEARCH_YEARS;
+
+    while (date.getUTCFullYear() <= lastYear) {
+      if (!months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0);
+      } else if (!matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0);
+      } else if (!hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0);
+      } else if (!minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0);
+      } else if (seconds.has(date.getUTCSeconds())) {
+        return date.getTime();
+      } else {
+        date.setUTCSeconds(date.getUTCSeconds() + 1);
+      }
+    }
+
+    return null;
+  };
+
+  const {
+    toInstant,
+    toWallClockTimestamp,
+  } = createWallClock(timeZone);
+
+  const next = (after: Date): Date | null => {
+    const afterTimestamp = after.getTime();
+
+    let candidate: number | null = toWallClockTimestamp(Math.floor(afterTimestamp / 1_000) * 1_000 + 1_000);
+
+    while (candidate !== null) {
+      candidate = nextWallClockTimestamp(candidate);
+
+      if (candidate === null) {
+        break;
+      }
+
+      const instant = toInstant(candidate);
+
+      if (instant !== null && instant > afterTimestamp) {
+        return new Date(instant);
+      }
+
+      candidate += 1_000;
+    }
+
+    return null;
+  };
+
+  if (next(new Date()) === null) {
+    throw new UnexpectedStateError('Cron expression does not match any date.');
+  }
+
+  return {
+    next,
+  };
+};
@@ -0,0 +1,100 @@
+import type {
+  Delay,
+} from './createDelay';
+
+/**
+ * Resolves once the slot has been granted (or the wait has been cleared).
+ *
+ * @property isGranted Produces `true` while the slot is held, i.e. `false` if the wait has been cleared before the slot was granted.
+ * @property release Frees the slot (if it has been granted) or stops waiting for it.
+ */
+export type CycleSlot = Delay & {
+  readonly isGranted: () => boolean,
+  readonly release: () => void,
+};
+
+/**
+ * @property acquire Produces a slot that is granted once fewer than `cycleConcurrency` scheduling cycles are running.
+ * @property getRunningCount Produces the number of granted slots.
+ */
+export type CycleLimiter = {
+  readonly acquire: () => CycleSlot,
+  readonly getRunningCount: () => number,
+};
+
+/**
+ * Limits the number of scheduling cycles that run at the same time. Slots are granted in the order in which they were requested.
+ */
+export const createCycleLimiter = (cycleConcurrency: number): CycleLimiter => {
+  let runningCount = 0;
+
+  const waitingSlots = new Set<() => void>();
+
+  const grantWaitingSlots = () => {
+    for (const grant of waitingSlots) {
+      if (runningCount >= cycleConcurrency) {
+        break;
+      }
+
+      grant();
+    }
+  };
+
+  return {
+    acquire: () => {
+      let settle!: () => void;
+
+      const promise = new Promise<void>((resolve) => {
+        settle = resolve;
+      });
+
+      let granted = false;
+
+      const grant = () => {
+        waitingSlots.delete(grant);
+
+        granted = true;
+
+        runningCount++;
+
+        settle();
+      };
+
+      // Clearing the wait does not grant the slot.
+      const clear = () => {
+        waitingSlots.delete(grant);
+
+        settle();
+      };
+
+      if (runningCount < cycleConcurrency && waitingSlots.size === 0) {
+        grant();
+      } else {
+        waitingSlots.add(grant);
+      }
+
+      return Object.assign(promise, {
+        clear,
+        isGranted: () => {
+          return granted;
+        },
+        release: () => {
+          clear();
+
+          if (!granted) {
+            return;
+          }
+
+          granted = false;
+
+          runningCount--;
+
+          grantWaitingSlots();
+        },
+      });
+    },
+    getRunningCount: () => {
+      return runningCount;
+    },
+  };
+};
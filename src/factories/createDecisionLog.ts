@@ -0,0 +1,119 @@
+import {
+  serializeError,
+} from 'serialize-error';
+import type {
+  Clock,
+  DecisionLogEntry,
+} from '../types';
+
+/**
+ * The maximum number of entries kept in the decision log of a task. Once exceeded, the oldest entries are discarded.
+ */
+const MAXIMUM_ENTRY_COUNT = 1_000;
+
+type Decision = {
+  -readonly [K in keyof DecisionLogEntry]: DecisionLogEntry[K];
+};
+
+/**
+ * @property endCycle Completes the entry of the current scheduling cycle.
+ * @property getEntries Produces the recorded entries (oldest first).
+ * @property recordActiveInstructionCount Records the number of active task instructions of the current scheduling cycle.
+ * @property recordDelay Records the delay chosen after the last scheduling cycle.
+ * @property recordError Records an error produced during the current scheduling cycle.
+ * @property recordInstructions Records the result of `schedule` of the current scheduling cycle.
+ * @property recordLimit Records the limit of the current scheduling cycle.
+ * @property startCycle Starts an entry for a new scheduling cycle.
+ */
+export type DecisionLog = {
+  readonly endCycle: (dispatchedInstructions: unknown[]) => void,
+  readonly getEntries: () => DecisionLogEntry[],
+  readonly recordActiveInstructionCount: (activeInstructionCount: number) => void,
+  readonly recordDelay: (delay: number) => void,
+  readonly recordError: (error: Error) => void,
+  readonly recordInstructions: (instructions: unknown) => void,
+  readonly recordLimit: (limit: number) => void,
+  readonly startCycle: () => void,
+};
+
+/**
+ * Records the decisions made by the scheduling cycles of a task that runs in the dry-run mode.
+ */
+export const createDecisionLog = (taskName: string, clock: Clock): DecisionLog => {
+  const entries: Decision[] = [];
+
+  let currentDecision: Decision | null = null;
+
+  return {
+    endCycle: (dispatchedInstructions) => {
+      if (!currentDecision) {
+        return;
+      }
+
+      currentDecision.dispatchedInstructions = [
+        ...dispatchedInstructions,
+      ];
+
+      entries.push(currentDecision);
+
+      if (entries.length > MAXIMUM_ENTRY_COUNT) {
+        entries.shift();
+      }
+
+      currentDecision = null;
+    },
+    getEntries: () => {
+      return entries.map((entry) => {
+        return {
+          ...entry,
+          dispatchedInstructions: [
+            ...entry.dispatchedInstructions,
+          ],
+          errors: [
+            ...entry.errors,
+          ],
+        };
+      });
+    },
+    recordActiveInstructionCount: (activeInstructionCount) => {
+      if (currentDecision) {
+        currentDecision.activeInstructionCount = activeInstructionCount;
+      }
+    },
+    recordDelay: (delay) => {
+      const lastDecision = entries[entries.length - 1];
+
+      // The delay is chosen once, after the scheduling cycle has completed.
+      if (lastDecision && lastDecision.delay === null) {
+        lastDecision.delay = delay;
+      }
+    },
+    recordError: (error) => {
+      currentDecision?.errors.push(serializeError(error));
+    },
+    recordInstructions: (instructions) => {
+      if (currentDecision) {
+        currentDecision.instructions = Array.isArray(instructions) ? [
+          ...instructions,
+        ] : null;
+      }
+    },
+    recordLimit: (limit) => {
+      if (currentDecision) {
+        currentDecision.limit = limit;
+      }
+    },
+    startCycle: () => {
+      currentDecision = {
+        activeInstructionCount: null,
+        cycleAt: new Date(clock.now()),
+        delay: null,
+        dispatchedInstructions: [],
+        errors: [],
+        instructions: null,
+        limit: null,
+        taskName,
+      };
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import type {
+  CalculateDelay,
+} from '../types';
+
+/**
+ * @property base The minimum time in milliseconds to wait. Used as the delay after an attempt that produced instructions (attempt number 0).
+ * @property cap The maximum time in milliseconds to wait.
+ * @property random A function that produces a random number between 0 (inclusive) and 1 (exclusive). Default: `Math.random`.
+ */
+type DecorrelatedJitterBackoffConfiguration = {
+  readonly base: number,
+  readonly cap: number,
+  readonly random?: () => number,
+};
+
+/**
+ * Produces `calculateDelay` that derives the delay from the previous delay (`min(cap, random(base, previousDelay * 3))`).
+ * The delay is reset to `base` after an attempt that produced instructions.
+ *
+ * The produced function is stateful, i.e. create a new function for every task.
+ *
+ * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export const createDecorrelatedJitterBackoff = (configuration: DecorrelatedJitterBackoffConfiguration): CalculateDelay => {
+  const {
+    base,
+    cap,
+    random = Math.random,
+  } = configuration;
+
+  if (base < 0) {
+    throw new UnexpectedStateError('Base must be greater than or equal to 0.');
+  }
+
+  if (cap < base) {
+    throw new UnexpectedStateError('Cap must be greater than or equal to base.');
+  }
+
+  let previousDelay = base;
+
+  return (attemptNumber) => {
+    if (attemptNumber === 0) {
+      previousDelay = base;
+
+      return base;
+    }
+
+    previousDelay = Math.round(Math.min(cap, base + random() * (previousDelay * 3 - base)));
+
+    return previousDelay;
+  };
+};
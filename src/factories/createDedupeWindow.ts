@@ -0,0 +1,60 @@
+import type {
+  Clock,
+} from '../types';
+import {
+  createSystemClock,
+} from './createSystemClock';
+
+/**
+ * @property add Remembers the key for `ttl` milliseconds.
+ * @property has Produces `true` if the key has been added within the last `ttl` milliseconds (and it has not been evicted).
+ */
+export type DedupeWindow = {
+  readonly add: (key: string) => void,
+  readonly has: (key: string) => boolean,
+};
+
+/**
+ * Remembers recently added keys. Once `maxSize` keys are remembered, the oldest keys are evicted.
+ */
+export const createDedupeWindow = (ttl: number, maxSize: number, clock: Clock = createSystemClock()): DedupeWindow => {
+  // Keys are kept in the order in which they were added, i.e. the oldest keys expire first.
+  const expirations = new Map<string, number>();
+
+  const evictExpiredKeys = (now: number) => {
+    for (const [
+      key,
+      expiresAt,
+    ] of expirations) {
+      if (expiresAt > now) {
+        break;
+      }
+
+      expirations.delete(key);
+    }
+  };
+
+  return {
+    add: (key) => {
+      const now = clock.now();
+
+      evictExpiredKeys(now);
+
+      expirations.delete(key);
+      expirations.set(key, now + ttl);
+
+      for (const oldestKey of expirations.keys()) {
+        if (expirations.size <= maxSize) {
+          break;
+        }
+
+        expirations.delete(oldestKey);
+      }
+    },
+    has: (key) => {
+      evictExpiredKeys(clock.now());
+
+      return expirations.has(key);
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import type {
+  Clock,
+  Timer,
+} from '../types';
+import {
+  createSystemClock,
+} from './createSystemClock';
+
+/**
+ * The maximum delay supported by `setTimeout`. Longer delays are split into multiple timeouts.
+ */
+const MAXIMUM_TIMEOUT = 2_147_483_647;
+
+/**
+ * @property clear Cancels the delay and resolves the promise immediately.
+ */
+export type Delay = Promise<void> & {
+  readonly clear: () => void,
+};
+
+export const createDelay = (milliseconds: number, clock: Clock = createSystemClock()): Delay => {
+  let timer: Timer | undefined;
+
+  let settle!: () => void;
+
+  const promise = new Promise<void>((resolve) => {
+    settle = resolve;
+  });
+
+  const wait = (remaining: number) => {
+    timer = clock.setTimeout(() => {
+      if (remaining > MAXIMUM_TIMEOUT) {
+        wait(remaining - MAXIMUM_TIMEOUT);
+      } else {
+        settle();
+      }
+    }, Math.min(remaining, MAXIMUM_TIMEOUT));
+  };
+
+  wait(milliseconds);
+
+  return Object.assign(promise, {
+    clear: () => {
+      timer?.clear();
+
+      settle();
+    },
+  });
+};
@@ -6,6 +6,24 @@ import type {
   Emitter,
 } from '../types';
 
-export const createEmitter = <T extends EventMap> (): Emitter<T> => {
-  return new EventEmitter();
+/**
+ * @property emitAsync Calls the event listeners and resolves once the promises produced by the listeners have settled. Rejects if any listener fails.
+ */
+export type AsyncEmitter<T extends EventMap> = Emitter<T> & {
+  readonly emitAsync: <K extends string & keyof T>(eventName: K, parameters: T[K]) => Promise<void>,
+};
+
+export const createEmitter = <T extends EventMap> (): AsyncEmitter<T> => {
+  const eventEmitter = new EventEmitter();
+
+  return Object.assign(eventEmitter, {
+    emitAsync: async <K extends string & keyof T>(eventName: K, parameters: T[K]) => {
+      // Raw listeners include the wrappers of `once` listeners, i.e. calling them removes the listener.
+      const results = eventEmitter.rawListeners(eventName).map(async (listener) => {
+        await listener(parameters);
+      });
+
+      await Promise.all(results);
+    },
+  });
 };
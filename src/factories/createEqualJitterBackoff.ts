@@ -0,0 +1,44 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import type {
+  CalculateDelay,
+} from '../types';
+
+/**
+ * @property base Time in milliseconds used to derive the exponentially growing upper bound of the delay.
+ * @property cap The maximum time in milliseconds to wait.
+ * @property random A function that produces a random number between 0 (inclusive) and 1 (exclusive). Default: `Math.random`.
+ */
+type EqualJitterBackoffConfiguration = {
+  readonly base: number,
+  readonly cap: number,
+  readonly random?: () => number,
+};
+
+/**
+ * Produces `calculateDelay` that keeps half of the exponential back-off and randomizes the other half (`temp / 2 + random(0, temp / 2)`, where `temp = min(cap, base * 2 ^ attemptNumber)`).
+ *
+ * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export const createEqualJitterBackoff = (configuration: EqualJitterBackoffConfiguration): CalculateDelay => {
+  const {
+    base,
+    cap,
+    random = Math.random,
+  } = configuration;
+
+  if (base < 0) {
+    throw new UnexpectedStateError('Base must be greater than or equal to 0.');
+  }
+
+  if (cap < base) {
+    throw new UnexpectedStateError('Cap must be greater than or equal to base.');
+  }
+
+  return (attemptNumber) => {
+    const temporary = Math.min(cap, base * 2 ** attemptNumber);
+
+    return Math.round(temporary / 2 + random() * temporary / 2);
+  };
+};
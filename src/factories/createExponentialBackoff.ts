@@ -0,0 +1,44 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import type {
+  CalculateDelay,
+} from '../types';
+
+/**
+ * @property base Time in milliseconds to wait after an attempt that produced instructions (attempt number 0).
+ * @property cap The maximum time in milliseconds to wait.
+ * @property factor The multiplier applied for every attempt that did not produce instructions. Default: 2.
+ */
+type ExponentialBackoffConfiguration = {
+  readonly base: number,
+  readonly cap: number,
+  readonly factor?: number,
+};
+
+/**
+ * Produces `calculateDelay` that multiplies the delay by `factor` after every attempt that did not produce instructions (`min(cap, base * factor ^ attemptNumber)`).
+ */
+export const createExponentialBackoff = (configuration: ExponentialBackoffConfiguration): CalculateDelay => {
+  const {
+    base,
+    cap,
+    factor = 2,
+  } = configuration;
+
+  if (base < 0) {
+    throw new UnexpectedStateError('Base must be greater than or equal to 0.');
+  }
+
+  if (cap < base) {
+    throw new UnexpectedStateError('Cap must be greater than or equal to base.');
+  }
+
+  if (factor < 1) {
+    throw new UnexpectedStateError('Factor must be greater than or equal to 1.');
+  }
+
+  return (attemptNumber) => {
+    return Math.round(Math.min(cap, base * factor ** attemptNumber));
+  };
+};
@@ -0,0 +1,153 @@
+import {
+  randomUUID,
+} from 'crypto';
+import {
+  promises as fs,
+} from 'fs';
+import path from 'path';
+import type {
+  LockAdapter,
+} from '../types';
+
+/**
+ * @property directory Directory where the lock files are stored. Created if it does not exist.
+ */
+type FileLockAdapterConfiguration = {
+  readonly directory: string,
+};
+
+type Lease = {
+  readonly expiresAt: number,
+  readonly owner: string,
+};
+
+const readLease = async (lockPath: string): Promise<Lease | null> => {
+  try {
+    return JSON.parse(await fs.readFile(lockPath, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+
+    throw error;
+  }
+};
+
+/**
+ * Produces a lock adapter that keeps leases in lock files, i.e. it coordinates Planton instances that run on the same machine.
+ *
+ * Lock files are created atomically; however, taking over an expired lease is best-effort.
+ * Use an adapter backed by a database (or another coordination service) to coordinate instances that run on different machines.
+ */
+export const createFileLockAdapter = (configuration: FileLockAdapterConfiguration): LockAdapter => {
+  const {
+    directory,
+  } = configuration;
+
+  const getLockPath = (lockName: string): string => {
+    return path.join(directory, encodeURIComponent(lockName) + '.lock');
+  };
+
+  /**
+   * The lease is written to a temporary file first to ensure that other instances never observe a partially written lock file.
+   */
+  const writeTemporaryLease = async (lockPath: string, lease: Lease): Promise<string> => {
+    await fs.mkdir(directory, {
+      recursive: true,
+    });
+
+    const temporaryPath = lockPath + '.' + randomUUID() + '.tmp';
+
+    await fs.writeFile(temporaryPath, JSON.stringify(lease));
+
+    return temporaryPath;
+  };
+
+  /**
+   * Produces `false` if the lock file already exists.
+   */
+  const createLease = async (lockPath: string, lease: Lease): Promise<boolean> => {
+    const temporaryPath = await writeTemporaryLease(lockPath, lease);
+
+    try {
+      await fs.link(temporaryPath, lockPath);
+
+      return true;
+    } catch (error) {
+      if (error.code === 'EEXIST') {
+        return false;
+      }
+
+      throw error;
+    } finally {
+      await fs.unlink(temporaryPath);
+    }
+  };
+
+  const replaceLease = async (lockPath: string, lease: Lease): Promise<void> => {
+    const temporaryPath = await writeTemporaryLease(lockPath, lease);
+
+    await fs.rename(temporaryPath, lockPath);
+  };
+
+  return {
+    acquire: async (lockName, owner, ttl) => {
+      const lockPath = getLockPath(lockName);
+
+      const lease = {
+        expiresAt: Date.now() + ttl,
+        owner,
+      };
+
+      if (await createLease(lockPath, lease)) {
+        return true;
+      }
+
+      const existingLease = await readLease(lockPath);
+
+      if (existingLease && existingLease.owner !== owner && existingLease.expiresAt > Date.now()) {
+        return false;
+      }
+
+      await replaceLease(lockPath, lease);
+
+      // Another instance might have taken over the expired lease at the same time.
+      const currentLease = await readLease(lockPath);
+
+      return currentLease?.owner === owner;
+    },
+    release: async (lockName, owner) => {
+      const lockPath = getLockPath(lockName);
+
+      const lease = await readLease(lockPath);
+
+      if (lease?.owner !== owner) {
+        return;
+      }
+
+      try {
+        await fs.unlink(lockPath);
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    },
+    renew: async (lockName, owner, ttl) => {
+      const lockPath = getLockPath(lockName);
+
+      const lease = await readLease(lockPath);
+
+      if (lease?.owner !== owner || lease.expiresAt <= Date.now()) {
+        return false;
+      }
+
+      await replaceLease(lockPath, {
+        expiresAt: Date.now() + ttl,
+        owner,
+      });
+
+      return true;
+    },
+  };
+};
@@ -0,0 +1,42 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import type {
+  CalculateDelay,
+} from '../types';
+
+/**
+ * @property base Time in milliseconds used to derive the exponentially growing upper bound of the delay.
+ * @property cap The maximum time in milliseconds to wait.
+ * @property random A function that produces a random number between 0 (inclusive) and 1 (exclusive). Default: `Math.random`.
+ */
+type FullJitterBackoffConfiguration = {
+  readonly base: number,
+  readonly cap: number,
+  readonly random?: () => number,
+};
+
+/**
+ * Produces `calculateDelay` that picks a random delay between 0 and the exponential back-off (`random(0, min(cap, base * 2 ^ attemptNumber))`).
+ *
+ * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export const createFullJitterBackoff = (configuration: FullJitterBackoffConfiguration): CalculateDelay => {
+  const {
+    base,
+    cap,
+    random = Math.random,
+  } = configuration;
+
+  if (base < 0) {
+    throw new UnexpectedStateError('Base must be greater than or equal to 0.');
+  }
+
+  if (cap < base) {
+    throw new UnexpectedStateError('Cap must be greater than or equal to base.');
+  }
+
+  return (attemptNumber) => {
+    return Math.round(random() * Math.min(cap, base * 2 ** attemptNumber));
+  };
+};
@@ -0,0 +1,40 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import type {
+  CalculateDelay,
+} from '../types';
+
+/**
+ * @property base Time in milliseconds to wait after an attempt that produced instructions (attempt number 0).
+ * @property cap The maximum time in milliseconds to wait. Default: Infinity.
+ * @property increment Time in milliseconds added for every attempt that did not produce instructions. Default: `base`.
+ */
+type LinearBackoffConfiguration = {
+  readonly base: number,
+  readonly cap?: number,
+  readonly increment?: number,
+};
+
+/**
+ * Produces `calculateDelay` that increases the delay by a fixed increment after every attempt that did not produce instructions.
+ */
+export const createLinearBackoff = (configuration: LinearBackoffConfiguration): CalculateDelay => {
+  const {
+    base,
+    cap = Number.POSITIVE_INFINITY,
+    increment = base,
+  } = configuration;
+
+  if (base < 0 || increment < 0) {
+    throw new UnexpectedStateError('Base and increment must be greater than or equal to 0.');
+  }
+
+  if (cap < base) {
+    throw new UnexpectedStateError('Cap must be greater than or equal to base.');
+  }
+
+  return (attemptNumber) => {
+    return Math.min(cap, base + increment * attemptNumber);
+  };
+};
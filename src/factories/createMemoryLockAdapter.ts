@@ -0,0 +1,59 @@
+import type {
+  LockAdapter,
+} from '../types';
+
+type Lease = {
+  readonly expiresAt: number,
+  readonly owner: string,
+};
+
+/**
+ * Produces a lock adapter that keeps leases in memory, i.e. it only coordinates Planton instances that share the adapter within the same process.
+ */
+export const createMemoryLockAdapter = (): LockAdapter => {
+  const leases = new Map<string, Lease>();
+
+  const isHeldByAnotherOwner = (lockName: string, owner: string): boolean => {
+    const lease = leases.get(lockName);
+
+    return lease !== undefined && lease.owner !== owner && lease.expiresAt > Date.now();
+  };
+
+  const isHeldByOwner = (lockName: string, owner: string): boolean => {
+    const lease = leases.get(lockName);
+
+    return lease !== undefined && lease.owner === owner && lease.expiresAt > Date.now();
+  };
+
+  return {
+    acquire: async (lockName, owner, ttl) => {
+      if (isHeldByAnotherOwner(lockName, owner)) {
+        return false;
+      }
+
+      leases.set(lockName, {
+        expiresAt: Date.now() + ttl,
+        owner,
+      });
+
+      return true;
+    },
+    release: async (lockName, owner) => {
+      if (leases.get(lockName)?.owner === owner) {
+        leases.delete(lockName);
+      }
+    },
+    renew: async (lockName, owner, ttl) => {
+      if (!isHeldByOwner(lockName, owner)) {
+        return false;
+      }
+
+      leases.set(lockName, {
+        expiresAt: Date.now() + ttl,
+        owner,
+      });
+
+      return true;
+    },
+  };
+};
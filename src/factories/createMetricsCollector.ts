@@ -0,0 +1,268 @@
+import type {
+  MetricsCollector,
+} from '../types';
+
+/**
+ * @property buckets Upper bounds (in seconds) of the latency histogram buckets. Default: 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10.
+ * @property prefix Prefix of every metric name. Default: "planton_".
+ */
+type MetricsCollectorConfiguration = {
+  readonly buckets?: readonly number[],
+  readonly prefix?: string,
+};
+
+type Labels = Record<string, string>;
+
+type Sample = {
+  readonly labels: Labels,
+  value: number,
+};
+
+type HistogramSeries = {
+  readonly bucketCounts: number[],
+  count: number,
+  readonly labels: Labels,
+  sum: number,
+};
+
+const DEFAULT_BUCKETS = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+];
+
+const LABEL_VALUE_ESCAPES: Record<string, string> = {
+  '\n': '\\n',
+  '"': '\\"',
+  '\\': '\\\\',
+};
+
+const escapeLabelValue = (value: string): string => {
+  // `String#replaceAll` is not available in the ES2018 target.
+  // eslint-disable-next-line unicorn/prefer-string-replace-all
+  return value.replace(/["\\\n]/gu, (character) => {
+    return LABEL_VALUE_ESCAPES[character];
+  });
+};
+
+const formatLabels = (labels: Labels): string => {
+  return '{' + Object.entries(labels).map(([
+    name,
+    value,
+  ]) => {
+    return name + '="' + escapeLabelValue(value) + '"';
+  }).join(',') + '}';
+};
+
+const formatValue = (value: number): string => {
+  if (value === Number.POSITIVE_INFINITY) {
+    return '+Inf';
+  }
+
+  if (value === Number.NEGATIVE_INFINITY) {
+    return '-Inf';
+  }
+
+  return String(value);
+};
+
+const formatHeader = (name: string, type: string, help: string): string[] => {
+  return [
+    '# HELP ' + name + ' ' + help,
+    '# TYPE ' + name + ' ' + type,
+  ];
+};
+
+const createSampleFamily = (name: string, type: 'counter' | 'gauge', help: string) => {
+  const samples = new Map<string, Sample>();
+
+  const getSample = (labels: Labels): Sample => {
+    const key = formatLabels(labels);
+
+    let sample = samples.get(key);
+
+    if (!sample) {
+      sample = {
+        labels,
+        value: 0,
+      };
+
+      samples.set(key, sample);
+    }
+
+    return sample;
+  };
+
+  return {
+    increment: (labels: Labels, value = 1) => {
+      getSample(labels).value += value;
+    },
+    render: (): string[] => {
+      return [
+        ...formatHeader(name, type, help),
+        ...[
+          ...samples.values(),
+        ].map((sample) => {
+          return name + formatLabels(sample.labels) + ' ' + formatValue(sample.value);
+        }),
+      ];
+    },
+    set: (labels: Labels, value: number) => {
+      getSample(labels).value = value;
+    },
+  };
+};
+
+const createHistogramFamily = (name: string, help: string, buckets: readonly number[]) => {
+  const series = new Map<string, HistogramSeries>();
+
+  return {
+    observe: (labels: Labels, value: number) => {
+      const key = formatLabels(labels);
+
+      let histogramSeries = series.get(key);
+
+      if (!histogramSeries) {
+        histogramSeries = {
+          bucketCounts: buckets.map(() => {
+            return 0;
+          }),
+          count: 0,
+          labels,
+          sum: 0,
+        };
+
+        series.set(key, histogramSeries);
+      }
+
+      // Bucket counts are cumulative, i.e. the value is counted in every bucket whose upper bound is greater than or equal to the value.
+      for (const [
+        index,
+        bucket,
+      ] of buckets.entries()) {
+        if (value <= bucket) {
+          histogramSeries.bucketCounts[index]++;
+        }
+      }
+
+      histogramSeries.count++;
+      histogramSeries.sum += value;
+    },
+    render: (): string[] => {
+      const lines = formatHeader(name, 'histogram', help);
+
+      for (const histogramSeries of series.values()) {
+        for (const [
+          index,
+          bucket,
+        ] of buckets.entries()) {
+          lines.push(name + '_bucket' + formatLabels({
+            ...histogramSeries.labels,
+            le: formatValue(bucket),
+          }) + ' ' + histogramSeries.bucketCounts[index]);
+        }
+
+        lines.push(
+          name + '_bucket' + formatLabels({
+            ...histogramSeries.labels,
+            le: '+Inf',
+          }) + ' ' + histogramSeries.count,
+          name + '_sum' + formatLabels(histogramSeries.labels) + ' ' + formatValue(histogramSeries.sum),
+          name + '_count' + formatLabels(histogramSeries.labels) + ' ' + histogramSeries.count,
+        );
+      }
+
+      return lines;
+    },
+  };
+};
+
+/**
+ * Produces a metrics collector that keeps the metrics in memory and renders them in the Prometheus text exposition format.
+ * Every metric is labelled by `taskName`; durations and delays are recorded in seconds.
+ */
+export const createMetricsCollector = (configuration: MetricsCollectorConfiguration = {}): MetricsCollector => {
+  const {
+    buckets = DEFAULT_BUCKETS,
+    prefix = 'planton_',
+  } = configuration;
+
+  const sortedBuckets = [
+    ...buckets,
+  ].sort((a, b) => {
+    return a - b;
+  });
+
+  const cycles = createSampleFamily(prefix + 'cycles_total', 'counter', 'Number of scheduling cycles.');
+  const dispatchedInstructions = createSampleFamily(prefix + 'dispatched_instructions_total', 'counter', 'Number of dispatched task instructions.');
+  const errors = createSampleFamily(prefix + 'errors_total', 'counter', 'Number of scheduling errors by kind.');
+  const activeInstructions = createSampleFamily(prefix + 'active_instructions', 'gauge', 'Number of active task instructions observed during the last scheduling cycle.');
+  const attemptNumber = createSampleFamily(prefix + 'attempt_number', 'gauge', 'Number of consecutive scheduling cycles that did not produce task instructions.');
+  const delay = createSampleFamily(prefix + 'delay_seconds', 'gauge', 'Delay before the next scheduling cycle.');
+  const scheduleDuration = createHistogramFamily(prefix + 'schedule_duration_seconds', 'Duration of schedule calls.', sortedBuckets);
+  const getActiveTaskInstructionsDuration = createHistogramFamily(prefix + 'get_active_task_instructions_duration_seconds', 'Duration of getActiveTaskInstructions calls.', sortedBuckets);
+
+  return {
+    incrementCycles: (taskName) => {
+      cycles.increment({
+        taskName,
+      });
+    },
+    incrementDispatchedInstructions: (taskName, count) => {
+      dispatchedInstructions.increment({
+        taskName,
+      }, count);
+    },
+    incrementErrors: (taskName, kind) => {
+      errors.increment({
+        kind,
+        taskName,
+      });
+    },
+    observeGetActiveTaskInstructionsDuration: (taskName, duration) => {
+      getActiveTaskInstructionsDuration.observe({
+        taskName,
+      }, duration / 1_000);
+    },
+    observeScheduleDuration: (taskName, duration) => {
+      scheduleDuration.observe({
+        taskName,
+      }, duration / 1_000);
+    },
+    render: () => {
+      return [
+        ...cycles.render(),
+        ...dispatchedInstructions.render(),
+        ...errors.render(),
+        ...activeInstructions.render(),
+        ...attemptNumber.render(),
+        ...delay.render(),
+        ...scheduleDuration.render(),
+        ...getActiveTaskInstructionsDuration.render(),
+      ].join('\n') + '\n';
+    },
+    setActiveInstructions: (taskName, count) => {
+      activeInstructions.set({
+        taskName,
+      }, count);
+    },
+    setAttemptNumber: (taskName, value) => {
+      attemptNumber.set({
+        taskName,
+      }, value);
+    },
+    setDelay: (taskName, value) => {
+      delay.set({
+        taskName,
+      }, value / 1_000);
+    },
+  };
+};
@@ -1,124 +1,574 @@
-import delay from 'delay';
+import {
+  randomUUID,
+} from 'crypto';
 // @ts-expect-error -- types not available
 import Deferred from 'promise-deferred';
 import {
   serializeError,
 } from 'serialize-error';
 import Logger from '../Logger';
+import type {
+  TaskCallbackError,
+} from '../errors';
 import {
   UnexpectedStateError,
+  CalculateDelayError,
+  CalculateLimitError,
   DuplicateTaskNameError,
+  GetActiveTaskInstructionsError,
+  GetInstructionKeyError,
+  TaskListenerError,
   InvalidTaskConfigurationNameError,
+  ScheduleTimeoutError,
+  TerminationTimeoutError,
   UnexpectedTaskInstructionsError,
+  UnknownTaskNameError,
 } from '../errors';
 import type {
+  CalculateDelay,
+  Clock,
+  DecisionLogEntry,
+  CalculateLimit,
+  DefaultInstructionMap,
   Emitter,
+  GetInstructionKey,
+  InstructionMap,
+  LockAdapter,
+  NoInfer,
+  Planton,
+  PlantonConfiguration,
+  PlantonEventMap,
+  RateLimitState,
+  Schedule,
+  TaskDependency,
+  TaskEvent,
+  TaskInput,
+  TaskState,
+  TerminateOptions,
+  Timer,
+  ValidateInstruction,
 } from '../types';
+import {
+  createActiveTaskInstructionsBatcher,
+} from './createActiveTaskInstructionsBatcher';
+import type {
+  ConcurrencyBudget,
+} from './createConcurrencyBudget';
+import {
+  createConcurrencyBudget,
+} from './createConcurrencyBudget';
+import type {
+  CronSchedule,
+} from './createCronSchedule';
+import {
+  createCronSchedule,
+} from './createCronSchedule';
+import type {
+  CycleSlot,
+} from './createCycleLimiter';
+import {
+  createCycleLimiter,
+} from './createCycleLimiter';
+import type {
+  DecisionLog,
+} from './createDecisionLog';
+import {
+  createDecisionLog,
+} from './createDecisionLog';
+import type {
+  DedupeWindow,
+} from './createDedupeWindow';
+import {
+  createDedupeWindow,
+} from './createDedupeWindow';
+import type {
+  Delay,
+} from './createDelay';
+import {
+  createDelay,
+} from './createDelay';
 import {
   createEmitter,
 } from './createEmitter';
+import {
+  createSystemClock,
+} from './createSystemClock';
+import {
+  createTaskExecutor,
+} from './createTaskExecutor';
+import {
+  createTaskLease,
+} from './createTaskLease';
+import {
+  createTaskStreams,
+} from './createTaskStreams';
+import {
+  createTaskTracer,
+} from './createTaskTracer';
+import type {
+  TimeWindows,
+} from './createTimeWindows';
+import {
+  createTimeWindows,
+} from './createTimeWindows';
+import {
+  createTimerQueue,
+} from './createTimerQueue';
+import type {
+  TokenBucket,
+} from './createTokenBucket';
+import {
+  createTokenBucket,
+} from './createTokenBucket';
 
 const log = Logger.child({
   namespace: 'createPlanton',
 });
 
-type TaskInstruction = string;
-
-type TaskEvent = {
-  readonly instruction: string,
-  readonly taskName: string,
+type InternalTaskInput = Omit<TaskInput<unknown>, 'validateInstruction'> & {
+  readonly validateInstruction?: ValidateInstruction,
 };
 
-type ErrorEvent = {
-  readonly error: Error,
-  readonly taskName: string,
+type DeferredPromise<T = void> = {
+  readonly promise: Promise<T>,
+  readonly resolve: (value: T) => void,
 };
 
 /**
- * @property activeTaskInstructions A list of active task instructions as retrieved using `getActiveTaskInstructions`.
- * @property concurrency The current concurrency setting value.
- * @property limit A limit derived based on the value of `concurrency` and the number of `activeTaskInstructions` (CONCURRENCY - ACTIVE TASK INSTRUCTIONS = LIMIT).
- * @property taskName Task name.
+ * Describes the progress of the task scheduling loop (see `TaskState`).
+ *
+ * @property activeInstructionCount The number of active task instructions observed in the current (or the last) scheduling cycle.
+ * @property limit The limit passed to `schedule` in the current (or the last) scheduling cycle.
  */
-type ScheduleConfiguration = {
-  readonly activeTaskInstructions: TaskInstruction[],
+type TaskProgress = {
+  activeInstructionCount: number | null,
+  lastCycleAt: Date | null,
+  lastCycleDuration: number | null,
+  lastError: Error | null,
+  lastInstructionCount: number | null,
+  limit: number | null,
+  nextAttemptAt: Date | null,
+  phase: 'delaying' | 'polling' | 'scheduling',
+};
+
+type InternalTask = {
+  readonly abort: () => void,
+  attemptNumber: number,
   readonly concurrency: number,
-  readonly limit: number,
-  readonly taskName: string,
+  readonly dependsOn: readonly TaskDependency[],
+  readonly getActiveTaskInstructions: () => Promise<unknown[]>,
+  readonly getDecisionLog: () => DecisionLogEntry[],
+  readonly getState: () => TaskState,
+  readonly name: string,
+  readonly pause: () => Promise<void>,
+  readonly reevaluateWindow: () => void,
+  readonly resume: () => void,
+  readonly schedule: Schedule<unknown>,
+  readonly terminate: () => Promise<void>,
+  readonly trigger: () => Promise<unknown[]>,
 };
 
 /**
- *
+ * @property taskName `undefined` if the blackout applies to all tasks.
  */
-type Schedule = (configuration: ScheduleConfiguration) => Promise<TaskInstruction[]>;
+type InternalBlackout = {
+  readonly end: number,
+  readonly start: number,
+  readonly taskName: string | undefined,
+};
 
 /**
- * Produces a number (time in milliseconds) representing how long Planton must wait before attempting `schedule` function.
+ * Delay used by default, and when `calculateDelay` produces an error.
  */
-type CalculateDelay = (attemptNumber: number) => Promise<number> | number;
+const DEFAULT_DELAY = 1_000;
+
+const DEFAULT_LOCK_TTL = 30_000;
+
+const DEFAULT_DEDUPE_MAX_SIZE = 10_000;
+
+const DEFAULT_BATCH_WINDOW = 10;
+
+const defaultCalculateDelay: CalculateDelay = () => {
+  return DEFAULT_DELAY;
+};
+
+const defaultCalculateLimit: CalculateLimit<unknown> = (concurrency, activeTaskInstructions) => {
+  return concurrency - activeTaskInstructions.length;
+};
+
+const defaultValidateInstruction: ValidateInstruction = (instruction) => {
+  return typeof instruction === 'string';
+};
+
+const defaultGetInstructionKey: GetInstructionKey<unknown> = (instruction) => {
+  return typeof instruction === 'string' ? instruction : JSON.stringify(instruction);
+};
+
+const resolveLockTtl = (inputTask: InternalTaskInput, lockAdapter: LockAdapter | undefined): number => {
+  if (!lockAdapter && inputTask.lockTtl !== undefined) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task `lockTtl` requires `lockAdapter`.');
+  }
+
+  const lockTtl = inputTask.lockTtl ?? DEFAULT_LOCK_TTL;
+
+  if (lockTtl <= 0) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task lock TTL must be greater than 0.');
+  }
+
+  return lockTtl;
+};
+
+const resolveScheduleTimeout = (inputTask: InternalTaskInput): number | undefined => {
+  if (inputTask.scheduleTimeout !== undefined && inputTask.scheduleTimeout <= 0) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task schedule timeout must be greater than 0.');
+  }
+
+  return inputTask.scheduleTimeout;
+};
+
+const resolveTokenBucket = (inputTask: InternalTaskInput, clock: Clock): TokenBucket | null => {
+  const rateLimit = inputTask.rateLimit;
+
+  if (!rateLimit) {
+    return null;
+  }
+
+  if (!Number.isInteger(rateLimit.limit) || rateLimit.limit < 1) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task rate limit must be a positive integer.');
+  }
+
+  if (rateLimit.intervalMs <= 0) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task rate limit interval must be greater than 0.');
+  }
+
+  return createTokenBucket(rateLimit.limit, rateLimit.intervalMs, clock);
+};
+
+const resolveDedupeWindow = (inputTask: InternalTaskInput, clock: Clock): DedupeWindow | null => {
+  const dedupe = inputTask.dedupe;
+
+  if (!dedupe) {
+    return null;
+  }
+
+  if (dedupe.ttl <= 0) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task dedupe TTL must be greater than 0.');
+  }
+
+  const maxSize = dedupe.maxSize ?? DEFAULT_DEDUPE_MAX_SIZE;
+
+  if (!Number.isInteger(maxSize) || maxSize < 1) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task dedupe maximum size must be a positive integer.');
+  }
+
+  return createDedupeWindow(dedupe.ttl, maxSize, clock);
+};
 
 /**
- * Produces a number indicating how many tasks can be scheduled at most.
+ * Tasks that run in the dry-run mode record a decision log.
  */
-type CalculateLimit = (concurrency: number, activeTaskInstructions: TaskInstruction[]) => Promise<number> | number;
+const resolveDecisionLog = (inputTask: InternalTaskInput, dryRun: boolean | undefined, clock: Clock): DecisionLog | null => {
+  return inputTask.dryRun ?? dryRun ?? false ? createDecisionLog(inputTask.name, clock) : null;
+};
 
 /**
- * @property concurrency Together with `getActiveTaskInstructions`, the `concurrency` setting is used to generate `limit` value that is passed to task scheduler.
- * @property name A unique name of the task. Used to identify task scheduler in errors and for tracking active task instructions (see `getActiveTaskInstructions`).
+ * Active task instructions are read using either `getActiveTaskInstructions` or (batched) `getActiveTaskInstructionsBatch`.
  */
-type TaskInput = {
-  readonly calculateDelay?: CalculateDelay,
-  readonly calculateLimit?: CalculateLimit,
-  readonly concurrency?: number,
-  readonly name: string,
-  readonly schedule: Schedule,
+const resolveGetActiveTaskInstructions = (
+  configuration: PlantonConfiguration<InstructionMap>,
+  clock: Clock,
+): ((taskName: string) => Promise<unknown[]>) | undefined => {
+  const {
+    getActiveTaskInstructionsBatch,
+  } = configuration;
+
+  if (!getActiveTaskInstructionsBatch) {
+    if (configuration.batchWindow !== undefined) {
+      throw new UnexpectedStateError('`batchWindow` requires `getActiveTaskInstructionsBatch`.');
+    }
+
+    return configuration.getActiveTaskInstructions;
+  }
+
+  if (configuration.getActiveTaskInstructions) {
+    throw new UnexpectedStateError('`getActiveTaskInstructions` and `getActiveTaskInstructionsBatch` cannot be used together.');
+  }
+
+  const batchWindow = configuration.batchWindow ?? DEFAULT_BATCH_WINDOW;
+
+  if (batchWindow < 0) {
+    throw new UnexpectedStateError('Batch window must be greater than or equal to 0.');
+  }
+
+  return createActiveTaskInstructionsBatcher(getActiveTaskInstructionsBatch, batchWindow, clock).load;
+};
+
+const resolveCycleConcurrency = (cycleConcurrency: number | undefined): number => {
+  if (cycleConcurrency === undefined) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  if (!Number.isInteger(cycleConcurrency) || cycleConcurrency < 1) {
+    throw new UnexpectedStateError('Cycle concurrency must be a positive integer.');
+  }
+
+  return cycleConcurrency;
+};
+
+const resolveConcurrencyBudget = (globalConcurrency: number | undefined): ConcurrencyBudget | null => {
+  if (globalConcurrency === undefined) {
+    return null;
+  }
+
+  if (!Number.isInteger(globalConcurrency) || globalConcurrency < 1) {
+    throw new UnexpectedStateError('Global concurrency must be a positive integer.');
+  }
+
+  return createConcurrencyBudget(globalConcurrency);
 };
 
 /**
- * @property getActiveTaskInstructions Returns list of tasks that are currently being executed. Used for concurrency control.
+ * Produces the share of the global concurrency budget (`weight` and `priority`) used by the task.
  */
-type PlantonConfiguration = {
-  readonly getActiveTaskInstructions: (taskName: string) => Promise<TaskInstruction[]>,
-  readonly tasks: TaskInput[],
+const resolveBudgetShare = (inputTask: InternalTaskInput, globalConcurrency: number | undefined) => {
+  if (globalConcurrency === undefined) {
+    if (inputTask.weight !== undefined || inputTask.priority !== undefined) {
+      throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task `weight` and `priority` require `globalConcurrency`.');
+    }
+
+    return {
+      priority: 0,
+      weight: 1,
+    };
+  }
+
+  const weight = inputTask.weight ?? 1;
+
+  if (weight <= 0) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task weight must be greater than 0.');
+  }
+
+  if (weight > globalConcurrency) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task weight cannot be greater than global concurrency.');
+  }
+
+  return {
+    priority: inputTask.priority ?? 0,
+    weight,
+  };
 };
 
-type InternalTask = {
-  attemptNumber: number,
+/**
+ * Throws if a task depends on an unknown task or if task dependencies form a cycle.
+ *
+ * @param dependencies Describes the dependencies (task names) of every task.
+ * @param taskNames Names of the tasks to validate.
+ */
+const validateTaskDependencies = (dependencies: Map<string, string[]>, taskNames: string[]) => {
+  for (const taskName of taskNames) {
+    for (const dependencyName of dependencies.get(taskName) ?? []) {
+      if (!dependencies.has(dependencyName)) {
+        throw new InvalidTaskConfigurationNameError(taskName, 'Task depends on an unknown task "' + dependencyName + '".');
+      }
+    }
+  }
 
-  readonly concurrency: number,
-  readonly name: string,
-  readonly schedule: Schedule,
-  readonly terminate: () => Promise<void>,
+  // Tasks whose dependencies have been verified not to form a cycle.
+  const acyclicTaskNames = new Set<string>();
+
+  const visit = (path: string[]) => {
+    const taskName = path[path.length - 1];
+
+    if (acyclicTaskNames.has(taskName)) {
+      return;
+    }
+
+    for (const dependencyName of dependencies.get(taskName) ?? []) {
+      if (path.includes(dependencyName)) {
+        const cycle = [
+          ...path.slice(path.indexOf(dependencyName)),
+          dependencyName,
+        ];
+
+        throw new InvalidTaskConfigurationNameError(path[0], 'Task dependencies form a cycle (' + cycle.join(' -> ') + ').');
+      }
+
+      visit([
+        ...path,
+        dependencyName,
+      ]);
+    }
+
+    acyclicTaskNames.add(taskName);
+  };
+
+  for (const taskName of taskNames) {
+    visit([
+      taskName,
+    ]);
+  }
 };
 
-type EventMap = {
-  error: ErrorEvent,
-  task: TaskEvent,
+/**
+ * System timers can fire a few milliseconds before the time that they were set for.
+ */
+const TIMER_TOLERANCE = 10;
+
+/**
+ * Produces `calculateDelay` that waits until the next instant matching the cron expression.
+ */
+const createCronCalculateDelay = (
+  taskName: string,
+  cron: string,
+  timeZone: string | undefined,
+  clock: Clock,
+  getLastCycleAt: () => Date | null,
+): CalculateDelay => {
+  let cronSchedule: CronSchedule;
+
+  try {
+    cronSchedule = createCronSchedule(cron, timeZone);
+  } catch (error) {
+    throw new InvalidTaskConfigurationNameError(taskName, error.message);
+  }
+
+  // The instant that the last delay was calculated for.
+  let pendingRunAt: number | null = null;
+
+  // The last instant that a scheduling cycle has run for; ensures that the same instant is not scheduled twice if a timer fires early.
+  let previousRunAt = 0;
+
+  return () => {
+    const now = clock.now();
+
+    const lastCycleAt = getLastCycleAt();
+
+    // Delays that have been cut short (e.g. by `trigger` or `pause`) do not consume the instant.
+    if (pendingRunAt !== null && lastCycleAt !== null && lastCycleAt.getTime() >= pendingRunAt - TIMER_TOLERANCE) {
+      previousRunAt = pendingRunAt;
+    }
+
+    const nextRunAt = cronSchedule.next(new Date(Math.max(now, previousRunAt)));
+
+    if (!nextRunAt) {
+      throw new UnexpectedStateError('Cron expression does not match any date.');
+    }
+
+    pendingRunAt = nextRunAt.getTime();
+
+    return pendingRunAt - now;
+  };
 };
 
-type Planton = {
-  events: Emitter<EventMap>,
-  terminate: () => Promise<void>,
+const resolveCalculateDelay = (inputTask: InternalTaskInput, clock: Clock, getLastCycleAt: () => Date | null): CalculateDelay => {
+  if (inputTask.cron !== undefined && inputTask.calculateDelay !== undefined) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task cannot use both `cron` and `calculateDelay`.');
+  }
+
+  if (inputTask.cron === undefined && inputTask.windows === undefined && inputTask.timeZone !== undefined) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task `timeZone` requires `cron` or `windows`.');
+  }
+
+  return inputTask.cron === undefined ?
+    inputTask.calculateDelay ?? defaultCalculateDelay :
+    createCronCalculateDelay(inputTask.name, inputTask.cron, inputTask.timeZone, clock, getLastCycleAt);
 };
 
-const defaultCalculateDelay: CalculateDelay = () => {
-  return 1_000;
+const resolveTimeWindows = (inputTask: InternalTaskInput): TimeWindows | null => {
+  if (inputTask.windows === undefined) {
+    return null;
+  }
+
+  try {
+    return createTimeWindows(inputTask.windows, inputTask.timeZone);
+  } catch (error) {
+    throw new InvalidTaskConfigurationNameError(inputTask.name, error.message);
+  }
 };
 
-const defaultCalculateLimit: CalculateLimit = (concurrency, activeTaskInstructions) => {
-  return concurrency - activeTaskInstructions.length;
+/**
+ * Produces the latest end of the blackouts of the task that are in effect at `instant`, or `null` if there are none.
+ */
+const findBlackoutEnd = (blackouts: Iterable<InternalBlackout>, taskName: string, instant: number): number | null => {
+  let blackoutEnd: number | null = null;
+
+  for (const blackout of blackouts) {
+    if (blackout.taskName !== undefined && blackout.taskName !== taskName) {
+      continue;
+    }
+
+    if (blackout.start <= instant && instant < blackout.end) {
+      blackoutEnd = Math.max(blackoutEnd ?? 0, blackout.end);
+    }
+  }
+
+  return blackoutEnd;
 };
 
-const createPlanton = (configuration: PlantonConfiguration): Planton => {
-  const {
-    getActiveTaskInstructions,
-  } = configuration;
+/**
+ * The instruction map must be provided explicitly (e.g. `createPlanton<{foo: number}>(…)`); it defaults to string instructions.
+ */
+const createPlanton = <M extends InstructionMap = DefaultInstructionMap>(configuration: PlantonConfiguration<NoInfer<M>>): Planton<M> => {
+  // Timers of all tasks share a single timer of the configured clock.
+  const clock = createTimerQueue(configuration.clock ?? createSystemClock());
+
+  // Limits the number of scheduling cycles that run at the same time (across all tasks).
+  const cycleLimiter = createCycleLimiter(resolveCycleConcurrency(configuration.cycleConcurrency));
+
+  // Instruction types are only known to the user; internally instructions are treated as opaque values.
+  const getActiveTaskInstructions = resolveGetActiveTaskInstructions(configuration as PlantonConfiguration<InstructionMap>, clock);
+
+  const events = createEmitter<PlantonEventMap<InstructionMap>>();
+
+  const taskStreams = createTaskStreams();
+
+  // Identifies this Planton instance when acquiring task leases.
+  const lockOwner = randomUUID();
 
-  const events = createEmitter<EventMap>();
+  const metrics = configuration.metrics;
+
+  // Shared by all tasks when `globalConcurrency` is configured.
+  const concurrencyBudget = resolveConcurrencyBudget(configuration.globalConcurrency);
 
   const tasks: InternalTask[] = [];
 
-  for (const inputTask of configuration.tasks) {
+  // Blackouts registered using `addBlackout` (by blackout ID).
+  const blackouts = new Map<string, InternalBlackout>();
+
+  let terminated = false;
+
+  let paused = false;
+
+  const findTask = (taskName: string): InternalTask => {
+    const task = tasks.find((existingTask) => {
+      return existingTask.name === taskName;
+    });
+
+    if (!task) {
+      throw new UnknownTaskNameError(taskName);
+    }
+
+    return task;
+  };
+
+  const validateDependencies = (inputTasks: readonly InternalTaskInput[]) => {
+    const dependencies = new Map<string, string[]>();
+
+    for (const task of [
+      ...tasks,
+      ...inputTasks,
+    ]) {
+      dependencies.set(task.name, (task.dependsOn ?? []).map((dependency) => {
+        return dependency.taskName;
+      }));
+    }
+
+    validateTaskDependencies(dependencies, inputTasks.map((inputTask) => {
+      return inputTask.name;
+    }));
+  };
+
+  const registerTask = (inputTask: InternalTaskInput): InternalTask => {
     log.debug('registered %s task', inputTask.name);
 
     for (const existingTask of tasks) {
@@ -127,19 +577,57 @@ const createPlanton = (configuration: PlantonConfiguration): Planton => {
       }
     }
 
-    const calculateDelay = inputTask.calculateDelay ?? defaultCalculateDelay;
+    const progress: TaskProgress = {
+      activeInstructionCount: null,
+      lastCycleAt: null,
+      lastCycleDuration: null,
+      lastError: null,
+      lastInstructionCount: null,
+      limit: null,
+      nextAttemptAt: null,
+      phase: 'delaying',
+    };
+
+    const calculateDelay = resolveCalculateDelay(inputTask, clock, () => {
+      return progress.lastCycleAt;
+    });
 
     const calculateLimit = inputTask.calculateLimit ?? defaultCalculateLimit;
 
+    const validateInstruction = inputTask.validateInstruction ?? defaultValidateInstruction;
+
+    const getInstructionKey = inputTask.getInstructionKey ?? defaultGetInstructionKey;
+
     const concurrency = inputTask.concurrency === undefined ? 1 : inputTask.concurrency;
 
     if (concurrency < 1) {
       throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task concurrency must be greater than 0.');
     }
 
+    if (!inputTask.execute && !getActiveTaskInstructions) {
+      throw new InvalidTaskConfigurationNameError(inputTask.name, 'Task must define `execute` when `getActiveTaskInstructions` is not configured.');
+    }
+
+    const lockAdapter = inputTask.lockAdapter ?? configuration.lockAdapter;
+
+    const lockTtl = resolveLockTtl(inputTask, lockAdapter);
+
+    const scheduleTimeout = resolveScheduleTimeout(inputTask);
+
+    const budgetShare = resolveBudgetShare(inputTask, configuration.globalConcurrency);
+
+    const tokenBucket = resolveTokenBucket(inputTask, clock);
+
+    const dedupeWindow = resolveDedupeWindow(inputTask, clock);
+
+    const decisionLog = resolveDecisionLog(inputTask, configuration.dryRun, clock);
+
+    const timeWindows = resolveTimeWindows(inputTask);
+
     const task: Partial<InternalTask> = {
       attemptNumber: 0,
       concurrency,
+      dependsOn: inputTask.dependsOn ?? [],
       name: inputTask.name,
       schedule: inputTask.schedule,
     };
@@ -150,191 +638,1364 @@ const createPlanton = (configuration: PlantonConfiguration): Planton => {
       throw new UnexpectedStateError('Task name cannot be empty.');
     }
 
-    const terminate = (() => {
-      let delayPromise: Promise<void>;
+    const taskTracer = createTaskTracer(taskName, configuration.tracer);
 
-      const deferredTermination = new Deferred();
+    concurrencyBudget?.register(taskName, budgetShare.weight, budgetShare.priority);
 
-      let active = true;
+    const setPhase = (phase: TaskProgress['phase']) => {
+      progress.phase = phase;
+    };
 
-      (async () => {
-        // eslint-disable-next-line no-unmodified-loop-condition
-        while (active) {
-          const calculatedDelay = await calculateDelay(task.attemptNumber ?? 0);
+    const recordCycle = (cycleStartTime: number, dispatchedTaskInstructions: unknown[]) => {
+      progress.lastCycleAt = new Date(cycleStartTime);
+      progress.lastCycleDuration = clock.now() - cycleStartTime;
+      progress.lastInstructionCount = dispatchedTaskInstructions.length;
+      progress.nextAttemptAt = null;
+      progress.phase = 'delaying';
+    };
 
-          if (calculatedDelay) {
-            delayPromise = delay(calculatedDelay);
+    const emitError = (error: Error) => {
+      progress.lastError = error;
 
-            await delayPromise;
-          }
+      decisionLog?.recordError(error);
 
-          if (!active) {
-            break;
-          }
+      taskTracer.recordError(error);
 
-          const activeTaskInstructions = await getActiveTaskInstructions(taskName);
+      events.emit('error', {
+        error,
+        taskName,
+      });
+    };
 
-          if (activeTaskInstructions.length >= concurrency) {
-            continue;
-          }
+    const emitCallbackError = (error: TaskCallbackError) => {
+      metrics?.incrementErrors(taskName, error instanceof CalculateLimitError ? 'limit_error' : 'callback_error');
 
-          let taskInstructions: TaskInstruction[];
+      log.error({
+        error: serializeError(error.originalError),
+        taskName,
+      }, '%s produced an error', error.callbackName);
 
-          const limit = await calculateLimit(
-            concurrency,
-            activeTaskInstructions,
-          );
+      emitError(error);
+    };
 
-          if (limit < 0) {
-            const error = new UnexpectedStateError('Limit must be greater than 0.');
+    /**
+     * Validator errors are treated as invalid instructions.
+     */
+    const isValidInstruction = (instruction: unknown): boolean => {
+      try {
+        return validateInstruction(instruction);
+      } catch (error) {
+        log.error({
+          error: serializeError(error),
+          taskName,
+        }, 'validateInstruction produced an error');
+
+        return false;
+      }
+    };
 
-            log.error({
-              error: serializeError(error),
-              limit,
-              taskName,
-            }, 'calculateLimit an unexpected result; limit must be greater than 0');
+    const excludeActiveInstructions = (taskInstructions: unknown[], activeTaskInstructions: unknown[]): unknown[] => {
+      if (activeTaskInstructions.length === 0) {
+        return taskInstructions;
+      }
 
-            events.emit('error', {
-              error,
-              taskName,
-            });
+      const activeInstructionKeys = new Set(activeTaskInstructions.map(getInstructionKey));
 
-            continue;
-          }
+      const newTaskInstructions = taskInstructions.filter((taskInstruction) => {
+        return !activeInstructionKeys.has(getInstructionKey(taskInstruction));
+      });
 
-          if (!Number.isInteger(limit)) {
-            const error = new UnexpectedStateError('Limit must be an integer.');
+      if (newTaskInstructions.length < taskInstructions.length) {
+        log.warn({
+          taskName,
+        }, 'scheduler produced task instructions that are already active; ignoring them');
+      }
 
-            log.error({
-              error: serializeError(error),
-              limit,
-              taskName,
-            }, 'calculateLimit an unexpected result; limit must be an integer');
+      return newTaskInstructions;
+    };
 
-            events.emit('error', {
-              error,
-              taskName,
-            });
+    /**
+     * Drops task instructions that have been dispatched within the dedupe window.
+     */
+    const excludeRecentInstructions = (taskInstructions: unknown[]): unknown[] => {
+      if (!dedupeWindow) {
+        return taskInstructions;
+      }
 
-            continue;
-          }
+      return taskInstructions.filter((taskInstruction) => {
+        if (!dedupeWindow.has(getInstructionKey(taskInstruction))) {
+          return true;
+        }
 
-          try {
-            taskInstructions = await inputTask.schedule({
-              activeTaskInstructions,
-              concurrency,
-              limit,
-              taskName,
-            });
-          } catch (error) {
-            log.error({
-              error: serializeError(error),
-              taskName,
-            }, 'scheduler produced an error');
+        log.debug({
+          taskName,
+        }, 'scheduler produced a task instruction that has been dispatched recently; ignoring it');
 
-            events.emit('error', {
-              error,
-              taskName,
-            });
+        events.emit('instructionDeduplicated', {
+          instruction: taskInstruction,
+          taskName,
+        });
 
-            taskInstructions = [];
-          }
+        return false;
+      });
+    };
 
-          if (!Array.isArray(taskInstructions)) {
-            events.emit('error', {
-              error: new UnexpectedTaskInstructionsError(taskName, taskInstructions),
-              taskName,
-            });
+    const emitThrottled = (retryAfter: number) => {
+      log.debug({
+        retryAfter,
+        taskName,
+      }, 'task is throttled by the rate limit');
 
-            log.error({
-              taskInstructions,
-              taskName,
-            }, 'scheduler produced an unexpected result; result is not array');
+      // Throttled tasks do not hold back lower priority tasks.
+      concurrencyBudget?.withdraw(taskName);
 
-            taskInstructions = [];
-          }
+      events.emit('taskThrottled', {
+        retryAfter,
+        taskName,
+      });
+    };
 
-          if (taskInstructions.length > limit) {
-            events.emit('error', {
-              error: new UnexpectedTaskInstructionsError(taskName, taskInstructions),
-              taskName,
-            });
+    /**
+     * Produces the delay before the next scheduling cycle; falls back to the default delay if `calculateDelay` fails.
+     */
+    const resolveDelay = async (): Promise<number> => {
+      let calculatedDelay: number;
 
-            log.error({
-              taskInstructions,
-              taskName,
-            }, 'scheduler produced an unexpected result; instruction number is greater than the limit');
+      try {
+        calculatedDelay = await calculateDelay(task.attemptNumber ?? 0);
+      } catch (error) {
+        emitCallbackError(new CalculateDelayError(taskName, error));
 
-            taskInstructions = [];
-          }
+        calculatedDelay = DEFAULT_DELAY;
+      }
 
-          for (const taskInstruction of taskInstructions) {
-            if (typeof taskInstruction !== 'string') {
-              events.emit('error', {
-                error: new UnexpectedTaskInstructionsError(taskName, taskInstructions),
-                taskName,
-              });
+      const refillDelay = tokenBucket?.getRefillDelay() ?? 0;
 
-              log.error({
-                taskInstructions,
-                taskName,
-              }, 'scheduler produced an unexpected result; array members are not string');
+      // The next scheduling cycle is delayed until the rate limit allows dispatching at least one task instruction.
+      if (refillDelay > calculatedDelay) {
+        emitThrottled(refillDelay);
 
-              taskInstructions = [];
+        calculatedDelay = refillDelay;
+      }
 
-              break;
-            }
+      metrics?.setDelay(taskName, calculatedDelay);
+
+      decisionLog?.recordDelay(calculatedDelay);
+
+      events.emit('delay', {
+        attemptNumber: task.attemptNumber ?? 0,
+        delay: calculatedDelay,
+        taskName,
+      });
+
+      return calculatedDelay;
+    };
+
+    /**
+     * Produces the first instant at or after `from` at which the task is within its windows and outside of the blackouts.
+     */
+    const getNextOpening = (from: number): number => {
+      let opening = timeWindows ? timeWindows.getNextOpening(from) : from;
+
+      // Blackouts can overlap each other and the windows.
+      for (;;) {
+        const blackoutEnd = findBlackoutEnd(blackouts.values(), taskName, opening);
+
+        if (blackoutEnd === null) {
+          return opening;
+        }
+
+        opening = timeWindows ? timeWindows.getNextOpening(blackoutEnd) : blackoutEnd;
+      }
+    };
+
+    const taskExecutor = inputTask.execute ?
+      createTaskExecutor(taskName, inputTask.execute, events, clock) :
+      null;
+
+    const taskLease = lockAdapter ?
+      createTaskLease(taskName, lockAdapter, lockOwner, lockTtl, events, emitCallbackError, clock) :
+      null;
+
+    // Aborts the signal of the in-flight `schedule` call when the task is terminated.
+    const terminationController = new AbortController();
+
+    /**
+     * Produces task instructions using `schedule`; stops waiting for `schedule` once `scheduleTimeout` is exceeded.
+     */
+    const runSchedule = async (activeTaskInstructions: unknown[], limit: number): Promise<unknown[]> => {
+      const abortController = new AbortController();
+
+      const abort = () => {
+        abortController.abort();
+      };
+
+      terminationController.signal.addEventListener('abort', abort);
+
+      let timer: Timer | undefined;
+
+      try {
+        const taskInstructions = Promise.resolve(inputTask.schedule({
+          activeTaskInstructions,
+          concurrency,
+          limit,
+          signal: abortController.signal,
+          taskName,
+        }));
+
+        if (scheduleTimeout === undefined) {
+          return await taskInstructions;
+        }
+
+        // Errors produced by `schedule` after the timeout are ignored.
+        taskInstructions.catch(() => {});
+
+        return await Promise.race([
+          taskInstructions,
+          new Promise<never>((_resolve, reject) => {
+            timer = clock.setTimeout(() => {
+              abort();
+
+              reject(new ScheduleTimeoutError(taskName, scheduleTimeout));
+            }, scheduleTimeout);
+          }),
+        ]);
+      } finally {
+        timer?.clear();
+
+        terminationController.signal.removeEventListener('abort', abort);
+      }
+    };
+
+    /**
+     * Produces an empty list of task instructions if `schedule` fails or times out.
+     */
+    const callSchedule = async (activeTaskInstructions: unknown[], limit: number): Promise<unknown[]> => {
+      try {
+        return await taskTracer.traceCallback('schedule', async () => {
+          return await runSchedule(activeTaskInstructions, limit);
+        });
+      } catch (error) {
+        if (terminationController.signal.aborted) {
+          log.debug({
+            error: serializeError(error),
+            taskName,
+          }, 'scheduler produced an error after the task has been terminated');
+
+          return [];
+        }
+
+        if (error instanceof ScheduleTimeoutError) {
+          log.error({
+            scheduleTimeout,
+            taskName,
+          }, 'scheduler did not produce a result within the schedule timeout');
+
+          metrics?.incrementErrors(taskName, 'schedule_timeout');
+        } else {
+          log.error({
+            error: serializeError(error),
+            taskName,
+          }, 'scheduler produced an error');
+
+          metrics?.incrementErrors(taskName, 'scheduler_error');
+        }
+
+        emitError(error);
+
+        return [];
+      }
+    };
+
+    const readActiveTaskInstructions = async (): Promise<unknown[]> => {
+      return taskExecutor ?
+        taskExecutor.getActiveTaskInstructions() :
+        await getActiveTaskInstructions?.(taskName) ?? [];
+    };
+
+    const isDependencySatisfied = async (dependency: TaskDependency): Promise<boolean> => {
+      const dependencyTask = tasks.find((existingTask) => {
+        return existingTask.name === dependency.taskName;
+      });
+
+      if (!dependencyTask) {
+        return false;
+      }
+
+      if (dependency.condition === 'lastCycleEmpty') {
+        return dependencyTask.getState().lastInstructionCount === 0;
+      }
+
+      try {
+        return (await dependencyTask.getActiveTaskInstructions()).length === 0;
+      } catch (error) {
+        log.warn({
+          error: serializeError(error),
+          taskName,
+        }, 'could not retrieve active task instructions of %s dependency', dependency.taskName);
+
+        return false;
+      }
+    };
+
+    const areDependenciesSatisfied = async (): Promise<boolean> => {
+      for (const dependency of task.dependsOn ?? []) {
+        if (!await isDependencySatisfied(dependency)) {
+          log.debug({
+            dependency,
+            taskName,
+          }, 'task dependency is not satisfied; skipping the scheduling cycle');
+
+          return false;
+        }
+      }
+
+      return true;
+    };
+
+    /**
+     * Only the Planton instance that holds the task lease schedules the task.
+     */
+    const acquireLease = async (): Promise<boolean> => {
+      return taskLease ? await taskLease.acquire() : true;
+    };
+
+    const isLeaseLost = (): boolean => {
+      return taskLease ? !taskLease.isHeld() : false;
+    };
+
+    /**
+     * Constrains the task limit to the remaining global concurrency budget.
+     * Produces `null` if the budget is exhausted, i.e. the scheduling cycle must be skipped.
+     */
+    const reserveBudget = (taskLimit: number): number | null => {
+      if (!concurrencyBudget) {
+        return taskLimit;
+      }
+
+      const limit = concurrencyBudget.reserve(taskName, taskLimit);
+
+      if (limit === taskLimit) {
+        return limit;
+      }
+
+      log.debug({
+        limit,
+        taskLimit,
+        taskName,
+      }, 'task limit is constrained by the global concurrency budget');
+
+      return limit === 0 ? null : limit;
+    };
+
+    /**
+     * Constrains the task limit to the number of task instructions that the rate limit allows to dispatch.
+     * Produces `null` if the rate limit does not allow dispatching any task instructions, i.e. the scheduling cycle must be skipped.
+     */
+    const throttle = (taskLimit: number): number | null => {
+      if (!tokenBucket) {
+        return taskLimit;
+      }
+
+      const availableTokens = tokenBucket.getAvailableTokens();
+
+      if (availableTokens >= taskLimit) {
+        return taskLimit;
+      }
+
+      log.debug({
+        availableTokens,
+        taskLimit,
+        taskName,
+      }, 'task limit is constrained by the rate limit');
+
+      if (availableTokens > 0) {
+        return availableTokens;
+      }
+
+      emitThrottled(tokenBucket.getRefillDelay());
+
+      return null;
+    };
+
+    const constrainLimit = (taskLimit: number): number | null => {
+      const limit = throttle(taskLimit);
+
+      return limit === null ? null : reserveBudget(limit);
+    };
+
+    const emitTask = async (taskInstruction: unknown) => {
+      const taskEvent = {
+        instruction: taskInstruction,
+        taskName,
+      };
+
+      taskStreams.publish(taskEvent);
+
+      if (!configuration.awaitTaskListeners) {
+        try {
+          events.emit('task', taskEvent);
+        } catch (error) {
+          emitCallbackError(new TaskListenerError(taskName, error));
+        }
+
+        return;
+      }
+
+      try {
+        await events.emitAsync('task', taskEvent);
+      } catch (error) {
+        emitCallbackError(new TaskListenerError(taskName, error));
+      }
+    };
+
+    const dispatch = async (taskInstruction: unknown) => {
+      dedupeWindow?.add(getInstructionKey(taskInstruction));
+
+      // In the dry-run mode, task instructions are recorded in the decision log instead.
+      if (decisionLog) {
+        return;
+      }
+
+      const emission = emitTask(taskInstruction);
+
+      taskExecutor?.execute(taskInstruction);
+
+      await emission;
+    };
+
+    /**
+     * Runs a single scheduling cycle and produces the dispatched task instructions.
+     */
+    const runCycle = async (): Promise<unknown[]> => {
+      setPhase('polling');
+
+      metrics?.incrementCycles(taskName);
+
+      taskTracer.setAttributes({
+        attemptNumber: task.attemptNumber ?? 0,
+        concurrency,
+      });
+
+      let activeTaskInstructions: unknown[];
+
+      const getActiveTaskInstructionsStartTime = clock.now();
+
+      try {
+        activeTaskInstructions = taskExecutor ?
+          taskExecutor.getActiveTaskInstructions() :
+          await taskTracer.traceCallback('getActiveTaskInstructions', readActiveTaskInstructions);
+      } catch (error) {
+        emitCallbackError(new GetActiveTaskInstructionsError(taskName, error));
+
+        if (task.attemptNumber !== undefined) {
+          task.attemptNumber++;
+        }
+
+        return [];
+      } finally {
+        metrics?.observeGetActiveTaskInstructionsDuration(taskName, clock.now() - getActiveTaskInstructionsStartTime);
+      }
+
+      metrics?.setActiveInstructions(taskName, activeTaskInstructions.length);
+
+      concurrencyBudget?.setActiveCount(taskName, activeTaskInstructions.length);
+
+      decisionLog?.recordActiveInstructionCount(activeTaskInstructions.length);
+
+      progress.activeInstructionCount = activeTaskInstructions.length;
+
+      if (activeTaskInstructions.length >= concurrency) {
+        events.emit('concurrencySaturated', {
+          activeInstructionCount: activeTaskInstructions.length,
+          concurrency,
+          taskName,
+        });
+
+        return [];
+      }
+
+      let taskInstructions: unknown[];
+
+      let limit: number;
+
+      try {
+        limit = await taskTracer.traceCallback('calculateLimit', () => {
+          return calculateLimit(
+            concurrency,
+            activeTaskInstructions,
+          );
+        });
+      } catch (error) {
+        emitCallbackError(new CalculateLimitError(taskName, error));
+
+        if (task.attemptNumber !== undefined) {
+          task.attemptNumber++;
+        }
+
+        return [];
+      }
+
+      if (limit < 0) {
+        const error = new UnexpectedStateError('Limit must be greater than 0.');
+
+        log.error({
+          error: serializeError(error),
+          limit,
+          taskName,
+        }, 'calculateLimit an unexpected result; limit must be greater than 0');
+
+        metrics?.incrementErrors(taskName, 'limit_error');
+
+        emitError(error);
+
+        return [];
+      }
+
+      if (!Number.isInteger(limit)) {
+        const error = new UnexpectedStateError('Limit must be an integer.');
+
+        log.error({
+          error: serializeError(error),
+          limit,
+          taskName,
+        }, 'calculateLimit an unexpected result; limit must be an integer');
+
+        metrics?.incrementErrors(taskName, 'limit_error');
+
+        emitError(error);
+
+        return [];
+      }
+
+      const constrainedLimit = constrainLimit(limit);
+
+      if (constrainedLimit === null) {
+        return [];
+      }
+
+      limit = constrainedLimit;
+
+      decisionLog?.recordLimit(limit);
+
+      progress.limit = limit;
+
+      taskTracer.setAttributes({
+        limit,
+      });
+
+      setPhase('scheduling');
+
+      const scheduleStartTime = clock.now();
+
+      taskInstructions = await callSchedule(activeTaskInstructions, limit);
+
+      decisionLog?.recordInstructions(taskInstructions);
+
+      metrics?.observeScheduleDuration(taskName, clock.now() - scheduleStartTime);
+
+      if (!Array.isArray(taskInstructions)) {
+        emitError(new UnexpectedTaskInstructionsError(taskName, taskInstructions));
+
+        log.error({
+          taskInstructions,
+          taskName,
+        }, 'scheduler produced an unexpected result; result is not array');
+
+        metrics?.incrementErrors(taskName, 'invalid_shape');
+
+        taskInstructions = [];
+      }
+
+      if (taskInstructions.length > limit) {
+        emitError(new UnexpectedTaskInstructionsError(taskName, taskInstructions));
+
+        log.error({
+          taskInstructions,
+          taskName,
+        }, 'scheduler produced an unexpected result; instruction number is greater than the limit');
+
+        metrics?.incrementErrors(taskName, 'over_limit');
+
+        taskInstructions = [];
+      }
+
+      for (const taskInstruction of taskInstructions) {
+        if (!isValidInstruction(taskInstruction)) {
+          emitError(new UnexpectedTaskInstructionsError(taskName, taskInstructions));
+
+          log.error({
+            taskInstructions,
+            taskName,
+          }, 'scheduler produced an unexpected result; array members are not valid task instructions');
+
+          metrics?.incrementErrors(taskName, 'invalid_shape');
+
+          taskInstructions = [];
+
+          break;
+        }
+      }
+
+      try {
+        taskInstructions = excludeRecentInstructions(excludeActiveInstructions(taskInstructions, activeTaskInstructions));
+      } catch (error) {
+        emitCallbackError(new GetInstructionKeyError(taskName, error));
+
+        taskInstructions = [];
+      }
+
+      if (taskInstructions.length > 0) {
+        if (isLeaseLost()) {
+          log.warn({
+            taskName,
+          }, 'task lease has been lost during the scheduling cycle; ignoring task instructions');
+
+          return [];
+        }
+
+        // eslint-disable-next-line require-atomic-updates
+        task.attemptNumber = 0;
+
+        metrics?.incrementDispatchedInstructions(taskName, taskInstructions.length);
+
+        await Promise.all(taskInstructions.map(dispatch));
+      } else if (task.attemptNumber !== undefined) {
+        task.attemptNumber++;
+      }
+
+      return taskInstructions;
+    };
+
+    /**
+     * Skipped scheduling cycles (unsatisfied dependencies or a lease held by another Planton instance) are not recorded.
+     */
+    const isReadyToSchedule = async (): Promise<boolean> => {
+      if (await areDependenciesSatisfied() && await acquireLease()) {
+        return true;
+      }
+
+      // Tasks that skip the scheduling cycle do not hold back lower priority tasks.
+      concurrencyBudget?.withdraw(taskName);
+
+      return false;
+    };
+
+    const emitCycleEnd = (dispatchedTaskInstructions: unknown[]) => {
+      events.emit('cycleEnd', {
+        activeInstructionCount: progress.activeInstructionCount,
+        duration: progress.lastCycleDuration ?? 0,
+        instructionCount: dispatchedTaskInstructions.length,
+        limit: progress.limit,
+        taskName,
+      });
+
+      // The task is idle when it has no active task instructions and the scheduling cycle has not produced any.
+      if (progress.activeInstructionCount === 0 && dispatchedTaskInstructions.length === 0) {
+        events.emit('idle', {
+          taskName,
+        });
+      }
+    };
+
+    const runTrackedCycle = async (): Promise<unknown[]> => {
+      const cycleStartTime = clock.now();
+
+      progress.activeInstructionCount = null;
+      progress.limit = null;
+
+      events.emit('cycleStart', {
+        taskName,
+      });
+
+      decisionLog?.startCycle();
+
+      const dispatchedTaskInstructions = await taskTracer.traceCycle(runCycle);
+
+      decisionLog?.endCycle(dispatchedTaskInstructions);
+
+      concurrencyBudget?.commit(taskName, dispatchedTaskInstructions.length);
+
+      tokenBucket?.take(dispatchedTaskInstructions.length);
+
+      recordCycle(cycleStartTime, dispatchedTaskInstructions);
+
+      emitCycleEnd(dispatchedTaskInstructions);
+
+      return dispatchedTaskInstructions;
+    };
+
+    const controls = (() => {
+      let delayPromise: Delay | undefined;
+
+      let cycleSlot: CycleSlot | undefined;
+
+      let capacityWait: Delay | undefined;
+
+      let windowDelay: Delay | undefined;
+
+      // Tasks are open until they observe that they are outside of their windows (or in a blackout).
+      let windowOpen = true;
+
+      const deferredTermination = new Deferred();
+
+      let active = true;
+
+      let terminationEmitted = false;
+
+      // `active` is unset as soon as the termination is requested; `stopped` is set once the loop has finished.
+      let stopped = false;
+
+      // `deferredResumption` is set while the task is paused; `deferredPause` resolves once the loop has stopped at the pause point.
+      let deferredResumption: DeferredPromise | null = null;
+
+      let deferredPause: DeferredPromise | null = null;
+
+      // `deferredTrigger` is set when a cycle has been requested using `trigger`; triggers are merged until the cycle starts.
+      let deferredTrigger: DeferredPromise<unknown[]> | null = null;
+
+      const clearDelay = () => {
+        if (delayPromise !== undefined) {
+          delayPromise.clear();
+        }
+      };
+
+      /**
+       * Waits can be cut short using `clearDelay`, e.g. when the task is paused or terminated.
+       */
+      const wait = async (delay: Delay) => {
+        delayPromise = delay;
+
+        await delay;
+      };
+
+      /**
+       * Unlike the delay, the wait for the stream consumers is not cut short by `trigger`.
+       */
+      const waitForCapacity = async () => {
+        const capacity = taskStreams.waitForCapacity(taskName);
+
+        capacityWait = capacity;
+
+        await capacity;
+      };
+
+      /**
+       * Unlike the delay, the wait for a cycle slot is not cut short by `trigger`.
+       */
+      const acquireCycleSlot = (): CycleSlot => {
+        const slot = cycleLimiter.acquire();
+
+        cycleSlot = slot;
+
+        return slot;
+      };
+
+      const clearWaits = () => {
+        clearDelay();
+
+        capacityWait?.clear();
+
+        cycleSlot?.clear();
+
+        windowDelay?.clear();
+      };
+
+      const isRunning = () => {
+        return active && !deferredResumption;
+      };
+
+      const settlePause = () => {
+        deferredPause?.resolve();
+      };
+
+      const waitForResumption = async () => {
+        // Paused tasks release their lease to allow other Planton instances to schedule the task.
+        await taskLease?.release();
+
+        concurrencyBudget?.withdraw(taskName);
+
+        settlePause();
+
+        await deferredResumption?.promise;
+      };
+
+      const hasPendingTrigger = () => {
+        return deferredTrigger !== null;
+      };
+
+      const takePendingTrigger = () => {
+        const pendingTrigger = deferredTrigger;
+
+        deferredTrigger = null;
+
+        return pendingTrigger;
+      };
+
+      const setWindowOpen = (open: boolean, opensAt: number) => {
+        if (windowOpen === open) {
+          return;
+        }
+
+        windowOpen = open;
+
+        if (open) {
+          log.debug('%s task window opened', taskName);
+
+          events.emit('windowOpened', {
+            taskName,
+          });
+        } else {
+          log.debug('%s task window closed', taskName);
+
+          events.emit('windowClosed', {
+            opensAt: new Date(opensAt),
+            taskName,
+          });
+        }
+      };
+
+      /**
+       * Outside of the windows (and during blackouts), the task sleeps until the window opens instead of calling `calculateDelay`.
+       * The sleep is not cut short by `trigger`. Produces `false` if the task has been paused or terminated while sleeping.
+       */
+      const waitForWindow = async (): Promise<boolean> => {
+        let opensAt = getNextOpening(clock.now());
+
+        while (opensAt > clock.now()) {
+          setWindowOpen(false, opensAt);
+
+          progress.nextAttemptAt = new Date(opensAt);
+
+          const delay = createDelay(opensAt - clock.now(), clock);
+
+          windowDelay = delay;
+
+          await delay;
+
+          if (!isRunning()) {
+            return false;
           }
 
-          if (taskInstructions.length > 0) {
-            // eslint-disable-next-line require-atomic-updates
-            task.attemptNumber = 0;
+          opensAt = getNextOpening(clock.now());
+        }
 
-            for (const taskInstruction of taskInstructions) {
-              events.emit('task', {
-                instruction: taskInstruction,
-                taskName,
-              });
-            }
-          } else if (task.attemptNumber !== undefined) {
-            task.attemptNumber++;
+        setWindowOpen(true, opensAt);
+
+        return true;
+      };
+
+      /**
+       * Runs the scheduling cycle once a cycle slot is free (see `cycleConcurrency`).
+       * Produces `false` if the task has been paused or terminated while waiting for the slot.
+       * The wait is cleared when the task is paused; if the task is resumed before the loop continues, the slot is requested again.
+       */
+      const runLimitedCycle = async (): Promise<boolean> => {
+        const slot = acquireCycleSlot();
+
+        try {
+          await slot;
+
+          if (!isRunning()) {
+            return false;
           }
 
-          if (!active) {
-            break;
+          if (!slot.isGranted()) {
+            return await runLimitedCycle();
           }
+
+          const cycleTrigger = takePendingTrigger();
+
+          try {
+            const dispatchedTaskInstructions = await isReadyToSchedule() ? await runTrackedCycle() : [];
+
+            cycleTrigger?.resolve(dispatchedTaskInstructions);
+          } catch (error) {
+            cycleTrigger?.resolve([]);
+
+            throw error;
+          }
+
+          return true;
+        } finally {
+          slot.release();
+        }
+      };
+
+      /**
+       * Waits for the next scheduling cycle and runs it.
+       */
+      const runIteration = async () => {
+        if (!isRunning()) {
+          await waitForResumption();
+
+          return;
+        }
+
+        const calculatedDelay = await resolveDelay();
+
+        if (!isRunning()) {
+          return;
+        }
+
+        progress.nextAttemptAt = new Date(hasPendingTrigger() ? clock.now() : clock.now() + calculatedDelay);
+
+        if (calculatedDelay && !hasPendingTrigger()) {
+          await wait(createDelay(calculatedDelay, clock));
+        }
+
+        if (!isRunning()) {
+          return;
         }
 
-        deferredTermination.resolve();
+        // The next scheduling cycle starts once the stream consumers have consumed the task events (see `stream`).
+        await waitForCapacity();
+
+        if (!isRunning()) {
+          return;
+        }
+
+        if (!await waitForWindow()) {
+          return;
+        }
+
+        if (!await runLimitedCycle()) {
+          return;
+        }
+
+        metrics?.setAttemptNumber(taskName, task.attemptNumber ?? 0);
+      };
+
+      /**
+       * Errors that escape the scheduling cycle (e.g. the `error` event without listeners) must not stop the task.
+       */
+      const recoverIteration = async (error: unknown) => {
+        log.error({
+          error: serializeError(error),
+          taskName,
+        }, 'scheduling loop produced an error');
+
+        setPhase('delaying');
+
+        progress.nextAttemptAt = new Date(clock.now() + DEFAULT_DELAY);
+
+        await wait(createDelay(DEFAULT_DELAY, clock));
+      };
+
+      (async () => {
+        try {
+          // eslint-disable-next-line no-unmodified-loop-condition
+          while (active) {
+            try {
+              await runIteration();
+            } catch (error) {
+              await recoverIteration(error);
+            }
+          }
+        } finally {
+          // Termination must resolve even if the loop fails unexpectedly.
+          active = false;
+
+          stopped = true;
+
+          settlePause();
+
+          takePendingTrigger()?.resolve([]);
+
+          deferredTermination.resolve();
+        }
       })();
 
-      return () => {
-        active = false;
+      const getRateLimitState = (): RateLimitState | null => {
+        if (!tokenBucket) {
+          return null;
+        }
 
-        if (delayPromise !== undefined) {
-          // @ts-expect-error -- deferred-promise types are not available
-          delayPromise.clear();
+        const availableTokens = tokenBucket.getAvailableTokens();
+
+        return {
+          availableTokens,
+          throttled: availableTokens === 0,
+        };
+      };
+
+      const getStatus = () => {
+        if (stopped) {
+          return 'terminated';
         }
 
-        return deferredTermination.promise;
+        if (!active) {
+          return progress.phase;
+        }
+
+        if (deferredResumption) {
+          return 'paused';
+        }
+
+        return progress.phase;
+      };
+
+      return {
+        abort: () => {
+          void taskExecutor?.terminate();
+        },
+        getActiveTaskInstructions: readActiveTaskInstructions,
+        getDecisionLog: () => {
+          return decisionLog ? decisionLog.getEntries() : [];
+        },
+        getState: (): TaskState => {
+          return {
+            attemptNumber: task.attemptNumber ?? 0,
+            concurrency,
+            lastCycleAt: progress.lastCycleAt,
+            lastCycleDuration: progress.lastCycleDuration,
+            lastError: progress.lastError,
+            lastInstructionCount: progress.lastInstructionCount,
+            nextAttemptAt: isRunning() ? progress.nextAttemptAt : null,
+            rateLimit: getRateLimitState(),
+            status: getStatus(),
+            taskName,
+          };
+        },
+        pause: () => {
+          if (!active) {
+            return deferredTermination.promise;
+          }
+
+          if (deferredResumption && deferredPause) {
+            return deferredPause.promise;
+          }
+
+          const pause: DeferredPromise = new Deferred();
+
+          deferredResumption = new Deferred();
+          deferredPause = pause;
+
+          clearWaits();
+
+          log.debug('paused %s task', taskName);
+
+          events.emit('taskPaused', {
+            taskName,
+          });
+
+          return pause.promise;
+        },
+        reevaluateWindow: () => {
+          windowDelay?.clear();
+        },
+        resume: () => {
+          if (!active || !deferredResumption) {
+            return;
+          }
+
+          const resumption = deferredResumption;
+
+          deferredPause?.resolve();
+
+          deferredResumption = null;
+          deferredPause = null;
+
+          resumption.resolve();
+
+          log.debug('resumed %s task', taskName);
+
+          events.emit('taskResumed', {
+            taskName,
+          });
+        },
+        terminate: async () => {
+          active = false;
+
+          clearWaits();
+
+          terminationController.abort();
+
+          if (deferredResumption) {
+            deferredResumption.resolve();
+          }
+
+          await deferredTermination.promise;
+
+          // Executions are terminated after the loop has finished to ensure that the last cycle cannot start new executions.
+          await taskExecutor?.terminate();
+
+          await taskLease?.release();
+
+          concurrencyBudget?.unregister(taskName);
+
+          // `terminate` can be called more than once, e.g. by `removeTask` and `planton.terminate`.
+          if (!terminationEmitted) {
+            terminationEmitted = true;
+
+            events.emit('taskTerminated', {
+              taskName,
+            });
+          }
+        },
+        trigger: () => {
+          if (!active) {
+            return Promise.resolve([]);
+          }
+
+          if (deferredTrigger) {
+            return deferredTrigger.promise;
+          }
+
+          const trigger: DeferredPromise<unknown[]> = new Deferred();
+
+          deferredTrigger = trigger;
+
+          progress.nextAttemptAt = new Date(clock.now());
+
+          clearDelay();
+
+          log.debug('triggered %s task', taskName);
+
+          return trigger.promise;
+        },
       };
     })();
 
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-expect-error
-    task.terminate = terminate;
+    const internalTask = Object.assign(task, controls) as InternalTask;
+
+    tasks.push(internalTask);
+
+    return internalTask;
+  };
+
+  const initialTasks = configuration.tasks as unknown as InternalTaskInput[];
 
-    tasks.push(task as InternalTask);
+  validateDependencies(initialTasks);
+
+  for (const inputTask of initialTasks) {
+    registerTask(inputTask);
   }
 
-  return {
-    events,
-    terminate: async () => {
+  const terminate = async (options: TerminateOptions = {}) => {
+    const firstTermination = !terminated;
+
+    terminated = true;
+
+    const pendingTasks = new Set(tasks);
+
+    const taskNames = tasks.map((task) => {
+      return task.name;
+    });
+
+    const termination = (async () => {
       await Promise.all(
-        tasks.map(async (task) => {
+        [
+          ...pendingTasks,
+        ].map(async (task) => {
           await task.terminate();
+
+          pendingTasks.delete(task);
         }),
       );
+
+      // Streams end once the last scheduling cycles have published their events.
+      taskStreams.close();
+
+      if (firstTermination) {
+        events.emit('terminated', {
+          taskNames,
+        });
+      }
+    })();
+
+    const {
+      timeout,
+    } = options;
+
+    if (timeout === undefined) {
+      await termination;
+
+      return;
+    }
+
+    const deadline = createDelay(timeout, clock);
+
+    await Promise.race([
+      termination,
+      deadline,
+    ]);
+
+    deadline.clear();
+
+    if (pendingTasks.size === 0) {
+      return;
+    }
+
+    const pendingTaskNames = [
+      ...pendingTasks,
+    ].map((task) => {
+      return task.name;
+    });
+
+    log.error({
+      taskNames: pendingTaskNames,
+      timeout,
+    }, 'tasks did not terminate within the timeout; aborting their executions');
+
+    for (const task of pendingTasks) {
+      task.abort();
+    }
+
+    throw new TerminationTimeoutError(pendingTaskNames, timeout);
+  };
+
+  /**
+   * Sleeping tasks re-evaluate when their window opens once the blackouts change.
+   */
+  const reevaluateWindows = () => {
+    for (const task of tasks) {
+      task.reevaluateWindow();
+    }
+  };
+
+  return {
+    addBlackout: (blackout) => {
+      if (blackout.taskName !== undefined) {
+        findTask(blackout.taskName);
+      }
+
+      const start = blackout.start.getTime();
+      const end = blackout.end.getTime();
+
+      if (!(start < end)) {
+        throw new UnexpectedStateError('Blackout end must be after its start.');
+      }
+
+      const blackoutId = randomUUID();
+
+      blackouts.set(blackoutId, {
+        end,
+        start,
+        taskName: blackout.taskName,
+      });
+
+      log.debug({
+        blackoutId,
+        end: blackout.end.toISOString(),
+        start: blackout.start.toISOString(),
+        taskName: blackout.taskName,
+      }, 'added blackout');
+
+      reevaluateWindows();
+
+      return blackoutId;
+    },
+    addTask: (inputTask) => {
+      if (terminated) {
+        throw new UnexpectedStateError('Cannot add a task after Planton has been terminated.');
+      }
+
+      validateDependencies([
+        inputTask as unknown as InternalTaskInput,
+      ]);
+
+      const task = registerTask(inputTask as unknown as InternalTaskInput);
+
+      if (paused) {
+        void task.pause();
+      }
+    },
+    events: events as unknown as Emitter<PlantonEventMap<M>>,
+    getDecisionLog: (taskName) => {
+      const entries = (taskName === undefined ? tasks : [
+        findTask(taskName),
+      ]).flatMap((task) => {
+        return task.getDecisionLog();
+      });
+
+      return entries.sort((a, b) => {
+        return a.cycleAt.getTime() - b.cycleAt.getTime();
+      });
+    },
+    getTaskState: (taskName) => {
+      return findTask(taskName).getState();
+    },
+    getTaskStates: () => {
+      return tasks.map((task) => {
+        return task.getState();
+      });
+    },
+    pause: async (taskName) => {
+      if (taskName === undefined) {
+        paused = true;
+
+        await Promise.all(
+          tasks.map(async (task) => {
+            await task.pause();
+          }),
+        );
+      } else {
+        await findTask(taskName).pause();
+      }
+    },
+    removeBlackout: (blackoutId) => {
+      if (!blackouts.delete(blackoutId)) {
+        throw new UnexpectedStateError('Blackout "' + blackoutId + '" does not exist.');
+      }
+
+      log.debug({
+        blackoutId,
+      }, 'removed blackout');
+
+      reevaluateWindows();
+    },
+    removeTask: async (taskName) => {
+      const task = findTask(taskName);
+
+      const dependentTask = tasks.find((existingTask) => {
+        return existingTask.dependsOn.some((dependency) => {
+          return dependency.taskName === taskName;
+        });
+      });
+
+      if (dependentTask) {
+        throw new InvalidTaskConfigurationNameError(dependentTask.name, 'Cannot remove a task that task "' + dependentTask.name + '" depends on.');
+      }
+
+      tasks.splice(tasks.indexOf(task), 1);
+
+      log.debug('removed %s task', taskName);
+
+      await task.terminate();
+
+      taskStreams.closeTask(taskName);
+    },
+    resume: (taskName) => {
+      if (taskName === undefined) {
+        paused = false;
+
+        for (const task of tasks) {
+          task.resume();
+        }
+      } else {
+        findTask(taskName).resume();
+      }
+    },
+    stream: (taskName, options = {}) => {
+      if (taskName !== undefined) {
+        findTask(taskName);
+      }
+
+      const bufferSize = options.bufferSize ?? 0;
+
+      if (!Number.isInteger(bufferSize) || bufferSize < 0) {
+        throw new UnexpectedStateError('Stream buffer size must be a non-negative integer.');
+      }
+
+      return taskStreams.subscribe(taskName, bufferSize) as AsyncIterableIterator<TaskEvent<M>>;
+    },
+    terminate,
+    trigger: async (taskName) => {
+      return await findTask(taskName).trigger() as Array<M[typeof taskName]>;
+    },
+    [Symbol.asyncDispose]: async () => {
+      await terminate();
     },
   };
 };
@@ -0,0 +1,23 @@
+import type {
+  Clock,
+} from '../types';
+
+/**
+ * Produces a clock that uses the system time (`Date.now`) and timers (`setTimeout`).
+ */
+export const createSystemClock = (): Clock => {
+  return {
+    now: () => {
+      return Date.now();
+    },
+    setTimeout: (callback, milliseconds) => {
+      const timeout = setTimeout(callback, milliseconds);
+
+      return {
+        clear: () => {
+          clearTimeout(timeout);
+        },
+      };
+    },
+  };
+};
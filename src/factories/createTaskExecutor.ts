@@ -0,0 +1,131 @@
+import {
+  serializeError,
+} from 'serialize-error';
+import Logger from '../Logger';
+import type {
+  Clock,
+  Emitter,
+  Execute,
+  InstructionMap,
+  PlantonEventMap,
+} from '../types';
+
+const log = Logger.child({
+  namespace: 'createTaskExecutor',
+});
+
+type Execution = {
+  readonly abortController: AbortController,
+  readonly instruction: unknown,
+  promise: Promise<void>,
+};
+
+/**
+ * @property execute Starts executing the task instruction.
+ * @property getActiveTaskInstructions Produces a list of task instructions that are being executed.
+ * @property terminate Aborts all executions. Resolves once all executions have settled.
+ */
+export type TaskExecutor = {
+  readonly execute: (instruction: unknown) => void,
+  readonly getActiveTaskInstructions: () => unknown[],
+  readonly terminate: () => Promise<void>,
+};
+
+/**
+ * Executes task instructions using the task `execute` handler and tracks the in-flight task instructions in memory.
+ */
+export const createTaskExecutor = (
+  taskName: string,
+  execute: Execute<unknown>,
+  events: Emitter<PlantonEventMap<InstructionMap>>,
+  clock: Clock,
+): TaskExecutor => {
+  // Executions are tracked individually, i.e. task instructions that share the instruction key do not replace each other.
+  const executions = new Set<Execution>();
+
+  const run = async (execution: Execution) => {
+    const {
+      abortController,
+      instruction,
+    } = execution;
+
+    const startTime = clock.now();
+
+    let executionError: Error | undefined;
+
+    try {
+      await execute(instruction, {
+        signal: abortController.signal,
+      });
+    } catch (error) {
+      executionError = error;
+    }
+
+    executions.delete(execution);
+
+    const duration = clock.now() - startTime;
+
+    if (executionError) {
+      log.error({
+        duration,
+        error: serializeError(executionError),
+        taskName,
+      }, 'task instruction execution failed');
+
+      events.emit('executionFailed', {
+        duration,
+        error: serializeError(executionError),
+        instruction,
+        taskName,
+      });
+    } else {
+      log.debug({
+        duration,
+        taskName,
+      }, 'task instruction execution succeeded');
+
+      events.emit('executionSucceeded', {
+        duration,
+        instruction,
+        taskName,
+      });
+    }
+  };
+
+  return {
+    execute: (instruction) => {
+      // The execution is registered before it starts to ensure that it is tracked even if `execute` settles synchronously.
+      const execution: Execution = {
+        abortController: new AbortController(),
+        instruction,
+        promise: Promise.resolve(),
+      };
+
+      executions.add(execution);
+
+      execution.promise = run(execution);
+    },
+    getActiveTaskInstructions: () => {
+      return [
+        ...executions.values(),
+      ].map((execution) => {
+        return execution.instruction;
+      });
+    },
+    terminate: async () => {
+      const pendingExecutions = [
+        ...executions.values(),
+      ];
+
+      for (const execution of pendingExecutions) {
+        execution.abortController.abort();
+      }
+
+      await Promise.all(
+        pendingExecutions.map((execution) => {
+          return execution.promise;
+        }),
+      );
+    },
+  };
+};
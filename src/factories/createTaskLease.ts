@@ -0,0 +1,148 @@
+import Logger from '../Logger';
+import {
+  LockAdapterError,
+} from '../errors';
+import type {
+  Clock,
+  Emitter,
+  InstructionMap,
+  LockAdapter,
+  PlantonEventMap,
+  Timer,
+} from '../types';
+
+const log = Logger.child({
+  namespace: 'createTaskLease',
+});
+
+/**
+ * @property acquire Produces `true` if the lease is held, acquiring it if necessary.
+ * @property isHeld Produces `true` if the lease is held, i.e. it has been acquired and it has not been lost or released.
+ * @property release Releases the lease (if it is held).
+ */
+export type TaskLease = {
+  readonly acquire: () => Promise<boolean>,
+  readonly isHeld: () => boolean,
+  readonly release: () => Promise<void>,
+};
+
+/**
+ * Holds the task lease using the lock adapter. The lease is renewed in the background (every third of `ttl`) until it is lost or released.
+ */
+export const createTaskLease = (
+  taskName: string,
+  lockAdapter: LockAdapter,
+  owner: string,
+  ttl: number,
+  events: Emitter<PlantonEventMap<InstructionMap>>,
+  onError: (error: LockAdapterError) => void,
+  clock: Clock,
+): TaskLease => {
+  let held = false;
+
+  let renewalTimer: Timer | undefined;
+
+  let pendingRenewal: Promise<void> | null = null;
+
+  const stopRenewal = () => {
+    renewalTimer?.clear();
+
+    renewalTimer = undefined;
+  };
+
+  const renew = async () => {
+    let renewed = false;
+
+    try {
+      renewed = await lockAdapter.renew(taskName, owner, ttl);
+    } catch (error) {
+      onError(new LockAdapterError(taskName, 'renew', error));
+    }
+
+    // The lease might have been released while it was being renewed.
+    if (renewed || !held) {
+      return;
+    }
+
+    held = false;
+
+    stopRenewal();
+
+    log.warn({
+      taskName,
+    }, 'lost %s task lease', taskName);
+
+    events.emit('leaseLost', {
+      taskName,
+    });
+  };
+
+  const scheduleRenewal = () => {
+    renewalTimer = clock.setTimeout(() => {
+      scheduleRenewal();
+
+      // Renewals are not overlapped, i.e. a slow lock adapter delays the next renewal.
+      if (!pendingRenewal) {
+        pendingRenewal = renew().finally(() => {
+          pendingRenewal = null;
+        });
+      }
+    }, Math.max(1, Math.floor(ttl / 3)));
+  };
+
+  const hold = () => {
+    held = true;
+
+    scheduleRenewal();
+  };
+
+  return {
+    acquire: async () => {
+      if (held) {
+        return true;
+      }
+
+      let acquired = false;
+
+      try {
+        acquired = await lockAdapter.acquire(taskName, owner, ttl);
+      } catch (error) {
+        onError(new LockAdapterError(taskName, 'acquire', error));
+      }
+
+      if (!acquired) {
+        return false;
+      }
+
+      hold();
+
+      log.debug('acquired %s task lease', taskName);
+
+      events.emit('leaseAcquired', {
+        taskName,
+      });
+
+      return true;
+    },
+    isHeld: () => {
+      return held;
+    },
+    release: async () => {
+      if (!held) {
+        return;
+      }
+
+      held = false;
+
+      stopRenewal();
+
+      try {
+        await lockAdapter.release(taskName, owner);
+      } catch (error) {
+        onError(new LockAdapterError(taskName, 'release', error));
+      }
+
+      log.debug('released %s task lease', taskName);
+    },
+  };
+};
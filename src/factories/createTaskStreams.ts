@@ -0,0 +1,222 @@
+import type {
+  InstructionMap,
+  TaskEvent,
+} from '../types';
+import type {
+  Delay,
+} from './createDelay';
+
+type StreamEvent = TaskEvent<InstructionMap>;
+
+/**
+ * @property deliveredEvent The last pulled event. It is consumed once the consumer pulls the next event (or stops consuming).
+ * @property pull Resolves the pending `next` call (if any).
+ * @property queuedEvents Events that have not been pulled by the consumer.
+ * @property taskName Name of the task whose events are streamed. `undefined` if events of all tasks are streamed.
+ */
+type Subscription = {
+  readonly bufferSize: number,
+  closed: boolean,
+  deliveredEvent: StreamEvent | null,
+  pull: ((result: IteratorResult<StreamEvent, undefined>) => void) | null,
+  readonly queuedEvents: StreamEvent[],
+  readonly taskName: string | undefined,
+};
+
+type CapacityWaiter = {
+  readonly settle: () => void,
+  readonly taskName: string,
+};
+
+/**
+ * @property close Ends all streams, including the streams that are subscribed afterwards. Events that have already been buffered can still be consumed.
+ * @property closeTask Ends the streams of the named task, e.g. when the task is removed. Streams of all tasks are not affected.
+ * @property publish Adds the task event to the streams of the task.
+ * @property subscribe Produces a stream of the events of the named task (or all tasks when task name is omitted).
+ * @property waitForCapacity Resolves once every stream of the task has at most `bufferSize` unconsumed events of the task.
+ */
+export type TaskStreams = {
+  readonly close: () => void,
+  readonly closeTask: (taskName: string) => void,
+  readonly publish: (event: StreamEvent) => void,
+  readonly subscribe: (taskName: string | undefined, bufferSize: number) => AsyncIterableIterator<StreamEvent>,
+  readonly waitForCapacity: (taskName: string) => Delay,
+};
+
+const countUnconsumedEvents = (subscription: Subscription, taskName: string): number => {
+  const queuedEventCount = subscription.queuedEvents.filter((event) => {
+    return event.taskName === taskName;
+  }).length;
+
+  return subscription.deliveredEvent?.taskName === taskName ? queuedEventCount + 1 : queuedEventCount;
+};
+
+/**
+ * Streams task events to async iterators. Streams apply backpressure: tasks wait for the consumers before starting the next scheduling cycle (see `waitForCapacity`).
+ */
+export const createTaskStreams = (): TaskStreams => {
+  const subscriptions = new Set<Subscription>();
+
+  const capacityWaiters = new Set<CapacityWaiter>();
+
+  let closed = false;
+
+  const isSubscribed = (subscription: Subscription, taskName: string): boolean => {
+    return subscription.taskName === undefined || subscription.taskName === taskName;
+  };
+
+  const hasCapacity = (taskName: string): boolean => {
+    for (const subscription of subscriptions) {
+      if (isSubscribed(subscription, taskName) && countUnconsumedEvents(subscription, taskName) > subscription.bufferSize) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const settleCapacityWaiters = () => {
+    for (const capacityWaiter of capacityWaiters) {
+      if (hasCapacity(capacityWaiter.taskName)) {
+        capacityWaiter.settle();
+      }
+    }
+  };
+
+  const unsubscribe = (subscription: Subscription) => {
+    subscription.closed = true;
+
+    subscriptions.delete(subscription);
+
+    subscription.pull?.({
+      done: true,
+      value: undefined,
+    });
+
+    subscription.pull = null;
+
+    settleCapacityWaiters();
+  };
+
+  return {
+    close: () => {
+      closed = true;
+
+      for (const subscription of subscriptions) {
+        unsubscribe(subscription);
+      }
+    },
+    closeTask: (taskName) => {
+      for (const subscription of subscriptions) {
+        if (subscription.taskName === taskName) {
+          unsubscribe(subscription);
+        }
+      }
+    },
+    publish: (event) => {
+      for (const subscription of subscriptions) {
+        if (!isSubscribed(subscription, event.taskName)) {
+          continue;
+        }
+
+        if (subscription.pull) {
+          subscription.deliveredEvent = event;
+
+          subscription.pull({
+            done: false,
+            value: event,
+          });
+
+          subscription.pull = null;
+        } else {
+          subscription.queuedEvents.push(event);
+        }
+      }
+    },
+    subscribe: (taskName, bufferSize) => {
+      const subscription: Subscription = {
+        bufferSize,
+        closed,
+        deliveredEvent: null,
+        pull: null,
+        queuedEvents: [],
+        taskName,
+      };
+
+      if (!closed) {
+        subscriptions.add(subscription);
+      }
+
+      const iterator: AsyncIterableIterator<StreamEvent> = {
+        next: async () => {
+          // Pulling the next event means that the previously delivered event has been consumed.
+          const event = subscription.queuedEvents.shift() ?? null;
+
+          subscription.deliveredEvent = event;
+
+          settleCapacityWaiters();
+
+          if (event) {
+            return {
+              done: false,
+              value: event,
+            };
+          }
+
+          if (subscription.closed) {
+            return {
+              done: true,
+              value: undefined,
+            };
+          }
+
+          return await new Promise((resolve) => {
+            subscription.pull = resolve;
+          });
+        },
+        return: async () => {
+          subscription.queuedEvents.length = 0;
+          subscription.deliveredEvent = null;
+
+          unsubscribe(subscription);
+
+          return {
+            done: true,
+            value: undefined,
+          };
+        },
+        [Symbol.asyncIterator]: () => {
+          return iterator;
+        },
+      };
+
+      return iterator;
+    },
+    waitForCapacity: (taskName) => {
+      let settle!: () => void;
+
+      const promise = new Promise<void>((resolve) => {
+        settle = resolve;
+      });
+
+      const capacityWaiter: CapacityWaiter = {
+        settle: () => {
+          capacityWaiters.delete(capacityWaiter);
+
+          settle();
+        },
+        taskName,
+      };
+
+      if (hasCapacity(taskName)) {
+        settle();
+      } else {
+        capacityWaiters.add(capacityWaiter);
+      }
+
+      return Object.assign(promise, {
+        clear: capacityWaiter.settle,
+      });
+    },
+  };
+};
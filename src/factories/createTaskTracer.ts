@@ -0,0 +1,104 @@
+import type {
+  Span,
+  SpanAttributes,
+  Tracer,
+} from '../types';
+
+/**
+ * Equivalent of OpenTelemetry `SpanStatusCode.ERROR`.
+ */
+const SPAN_STATUS_CODE_ERROR = 2;
+
+/**
+ * @property recordError Records the error on the span of the current scheduling cycle.
+ * @property setAttributes Sets attributes on the span of the current scheduling cycle.
+ * @property traceCallback Wraps the callback in a span that is a child of the current scheduling cycle span.
+ * @property traceCycle Wraps the scheduling cycle in a span. The routine must produce the dispatched task instructions.
+ */
+export type TaskTracer = {
+  readonly recordError: (error: Error) => void,
+  readonly setAttributes: (attributes: SpanAttributes) => void,
+  readonly traceCallback: <T>(callbackName: string, routine: () => Promise<T> | T) => Promise<T>,
+  readonly traceCycle: (routine: () => Promise<unknown[]>) => Promise<unknown[]>,
+};
+
+const recordSpanError = (span: Span, error: Error) => {
+  span.recordException(error);
+  span.setStatus({
+    code: SPAN_STATUS_CODE_ERROR,
+    message: error.message,
+  });
+};
+
+/**
+ * Produces a task tracer that does nothing if `tracer` is not configured.
+ *
+ * The scheduling cycle span is started using `startActiveSpan`, i.e. callback spans are parented by the OpenTelemetry context manager.
+ */
+export const createTaskTracer = (taskName: string, tracer: Tracer | undefined): TaskTracer => {
+  if (!tracer) {
+    return {
+      recordError: () => {},
+      setAttributes: () => {},
+      traceCallback: async (_callbackName, routine) => {
+        return await routine();
+      },
+      traceCycle: async (routine) => {
+        return await routine();
+      },
+    };
+  }
+
+  let cycleSpan: Span | null = null;
+
+  return {
+    recordError: (error) => {
+      if (cycleSpan) {
+        recordSpanError(cycleSpan, error);
+      }
+    },
+    setAttributes: (attributes) => {
+      cycleSpan?.setAttributes(attributes);
+    },
+    traceCallback: async (callbackName, routine) => {
+      const span = tracer.startSpan('planton.' + callbackName, {
+        attributes: {
+          taskName,
+        },
+      });
+
+      try {
+        return await routine();
+      } catch (error) {
+        recordSpanError(span, error);
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+    traceCycle: async (routine) => {
+      return await tracer.startActiveSpan('planton.cycle', {
+        attributes: {
+          taskName,
+        },
+      }, async (span) => {
+        cycleSpan = span;
+
+        try {
+          const taskInstructions = await routine();
+
+          span.setAttributes({
+            instructionCount: taskInstructions.length,
+          });
+
+          return taskInstructions;
+        } finally {
+          cycleSpan = null;
+
+          span.end();
+        }
+      });
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import type {
+  DefaultInstructionMap,
+  InstructionMap,
+  NoInfer,
+  PlantonConfiguration,
+  TestPlanton,
+} from '../types';
+import {
+  createPlanton,
+} from './createPlanton';
+import {
+  createVirtualClock,
+} from './createVirtualClock';
+
+/**
+ * Produces a Planton instance bound to a virtual clock, i.e. time only moves when the test advances it.
+ * `startTime` is the initial time of the virtual clock in milliseconds since the Unix epoch (default: 0).
+ */
+export const createTestPlanton = <M extends InstructionMap = DefaultInstructionMap>(
+  configuration: Omit<PlantonConfiguration<NoInfer<M>>, 'clock'>,
+  startTime?: number,
+): TestPlanton<M> => {
+  const clock = createVirtualClock(startTime);
+
+  const planton = createPlanton<M>({
+    ...configuration,
+    clock,
+  });
+
+  return {
+    ...planton,
+    advanceBy: clock.advanceBy,
+    clock,
+    runNextCycle: async (taskName) => {
+      // Lets the task loop settle, e.g. calculate the delay of the next scheduling cycle.
+      await clock.advanceBy(0);
+
+      const {
+        nextAttemptAt,
+      } = planton.getTaskState(taskName);
+
+      if (!nextAttemptAt) {
+        throw new UnexpectedStateError('Task "' + taskName + '" does not have a scheduled scheduling cycle.');
+      }
+
+      await clock.advanceBy(Math.max(0, nextAttemptAt.getTime() - clock.now()));
+    },
+  };
+};
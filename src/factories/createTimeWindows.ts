@@ -0,0 +1,157 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+import type {
+  TimeWindow,
+  Weekday,
+} from '../types';
+import {
+  createWallClock,
+} from './createWallClock';
+
+const DAY = 86_400_000;
+
+const WEEKDAYS: readonly Weekday[] = [
+  'sun',
+  'mon',
+  'tue',
+  'wed',
+  'thu',
+  'fri',
+  'sat',
+];
+
+/**
+ * @property days Days of the week (0 is Sunday) on which the range starts.
+ * @property end Time in milliseconds since the start of the day; ranges that end on the next day end after `DAY`.
+ * @property start Time in milliseconds since the start of the day.
+ */
+type DailyRange = {
+  readonly days: ReadonlySet<number>,
+  readonly end: number,
+  readonly start: number,
+};
+
+/**
+ * @property getNextOpening Produces the first instant at or after `from` that is within one of the windows.
+ */
+export type TimeWindows = {
+  readonly getNextOpening: (from: number) => number,
+};
+
+const parseTime = (time: string): number => {
+  const match = /^(\d{2}):(\d{2})$/u.exec(time);
+
+  if (!match) {
+    throw new UnexpectedStateError('Window time "' + time + '" must use the "HH:mm" format.');
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+
+  if (minutes > 59 || hours > 24 || hours === 24 && minutes > 0) {
+    throw new UnexpectedStateError('Window time "' + time + '" is out of range.');
+  }
+
+  return (hours * 60 + minutes) * 60_000;
+};
+
+const parseDays = (days: readonly Weekday[]): Set<number> => {
+  if (days.length === 0) {
+    throw new UnexpectedStateError('Window days cannot be empty.');
+  }
+
+  return new Set(days.map((day) => {
+    const dayNumber = WEEKDAYS.indexOf(day);
+
+    if (dayNumber === -1) {
+      throw new UnexpectedStateError('Window day "' + String(day) + '" is invalid.');
+    }
+
+    return dayNumber;
+  }));
+};
+
+const parseWindow = (window: TimeWindow): DailyRange => {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+
+  return {
+    days: parseDays(window.days ?? WEEKDAYS),
+    // Windows that do not end after they start end on the next day.
+    end: end > start ? end : end + DAY,
+    start,
+  };
+};
+
+/**
+ * Describes weekly recurring time windows in the wall clock time of the time zone (default: UTC).
+ */
+export const createTimeWindows = (windows: readonly TimeWindow[], timeZone?: string): TimeWindows => {
+  if (windows.length === 0) {
+    throw new UnexpectedStateError('Windows cannot be empty.');
+  }
+
+  const ranges = windows.map(parseWindow);
+
+  const {
+    toInstant,
+    toWallClockTimestamp,
+  } = createWallClock(timeZone);
+
+  /**
+   * Produces the first wall clock timestamp at or after `from` that is within one of the windows.
+   */
+  const getNextWallClockOpening = (from: number): number => {
+    const today = Math.floor(from / DAY) * DAY;
+
+    let opening = Number.POSITIVE_INFINITY;
+
+    // Ranges that started on the previous day can still be open; every range starts at least once within the next 7 days.
+    for (let dayStart = today - DAY; dayStart <= today + 7 * DAY; dayStart += DAY) {
+      const day = new Date(dayStart).getUTCDay();
+
+      for (const range of ranges) {
+        if (!range.days.has(day)) {
+          continue;
+        }
+
+        const start = dayStart + range.start;
+
+        if (start <= from && from < dayStart + range.end) {
+          return from;
+        }
+
+        if (start > from) {
+          opening = Math.min(opening, start);
+        }
+      }
+    }
+
+    return opening;
+  };
+
+  return {
+    getNextOpening: (from) => {
+      const wallClockFrom = toWallClockTimestamp(from) + from % 1_000;
+
+      let wallClockOpening = getNextWallClockOpening(wallClockFrom);
+
+      if (wallClockOpening === wallClockFrom) {
+        return from;
+      }
+
+      let opening = toInstant(wallClockOpening);
+
+      // Wall clock times that are skipped by a DST transition do not exist; the window opens at the first time that exists.
+      while (opening === null) {
+        wallClockOpening += 60_000;
+
+        opening = toInstant(wallClockOpening);
+      }
+
+      // Wall clock times that are repeated by a DST transition can resolve to an instant in the past; the opening is re-evaluated later.
+      return opening > from ? opening : from + 1_000;
+    },
+  };
+};
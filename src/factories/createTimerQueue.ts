@@ -0,0 +1,195 @@
+import type {
+  Clock,
+  Timer,
+} from '../types';
+import {
+  createSystemClock,
+} from './createSystemClock';
+
+/**
+ * The maximum delay supported by `setTimeout`.
+ */
+const MAXIMUM_TIMEOUT = 2_147_483_647;
+
+/**
+ * @property index Position of the entry in the heap; -1 once the entry has been removed.
+ * @property sequence Orders the entries that are due at the same time by insertion.
+ */
+type TimerEntry = {
+  readonly callback: () => void,
+  readonly dueAt: number,
+  index: number,
+  readonly sequence: number,
+};
+
+/**
+ * @property getTimerCount Produces the number of pending timers.
+ */
+export type TimerQueue = Clock & {
+  readonly getTimerCount: () => number,
+};
+
+const precedes = (a: TimerEntry, b: TimerEntry): boolean => {
+  return a.dueAt === b.dueAt ? a.sequence < b.sequence : a.dueAt < b.dueAt;
+};
+
+/**
+ * Produces a clock that keeps its timers in a priority queue (a binary min-heap ordered by due time) and uses a single timer of the underlying clock to fire them.
+ */
+export const createTimerQueue = (clock: Clock = createSystemClock()): TimerQueue => {
+  const heap: TimerEntry[] = [];
+
+  let sequence = 0;
+
+  // The underlying timer is armed for the earliest entry.
+  let armedTimer: Timer | null = null;
+
+  let armedAt: number | null = null;
+
+  const swap = (a: number, b: number) => {
+    const entry = heap[a];
+
+    heap[a] = heap[b];
+    heap[b] = entry;
+
+    heap[a].index = a;
+    heap[b].index = b;
+  };
+
+  const siftUp = (index: number) => {
+    let child = index;
+
+    while (child > 0) {
+      const parent = Math.floor((child - 1) / 2);
+
+      if (!precedes(heap[child], heap[parent])) {
+        break;
+      }
+
+      swap(child, parent);
+
+      child = parent;
+    }
+  };
+
+  const siftDown = (index: number) => {
+    let parent = index;
+
+    for (;;) {
+      const left = parent * 2 + 1;
+      const right = left + 1;
+
+      let first = parent;
+
+      if (left < heap.length && precedes(heap[left], heap[first])) {
+        first = left;
+      }
+
+      if (right < heap.length && precedes(heap[right], heap[first])) {
+        first = right;
+      }
+
+      if (first === parent) {
+        break;
+      }
+
+      swap(parent, first);
+
+      parent = first;
+    }
+  };
+
+  const remove = (entry: TimerEntry) => {
+    const index = entry.index;
+
+    const last = heap.pop();
+
+    entry.index = -1;
+
+    if (!last || last === entry) {
+      return;
+    }
+
+    heap[index] = last;
+    last.index = index;
+
+    siftUp(index);
+    siftDown(last.index);
+  };
+
+  const fireDueEntries = () => {
+    const now = clock.now();
+
+    while (heap.length > 0 && heap[0].dueAt <= now) {
+      const entry = heap[0];
+
+      remove(entry);
+
+      entry.callback();
+    }
+  };
+
+  const arm = () => {
+    const earliestEntry = heap[0];
+
+    if (earliestEntry && armedAt === earliestEntry.dueAt) {
+      return;
+    }
+
+    armedTimer?.clear();
+
+    armedTimer = null;
+    armedAt = null;
+
+    if (!earliestEntry) {
+      return;
+    }
+
+    armedAt = earliestEntry.dueAt;
+    armedTimer = clock.setTimeout(() => {
+      armedTimer = null;
+      armedAt = null;
+
+      try {
+        fireDueEntries();
+      } finally {
+        arm();
+      }
+    }, Math.min(MAXIMUM_TIMEOUT, Math.max(0, earliestEntry.dueAt - clock.now())));
+  };
+
+  return {
+    getTimerCount: () => {
+      return heap.length;
+    },
+    now: () => {
+      return clock.now();
+    },
+    setTimeout: (callback, milliseconds) => {
+      const entry: TimerEntry = {
+        callback,
+        dueAt: clock.now() + milliseconds,
+        index: heap.length,
+        sequence: sequence++,
+      };
+
+      heap.push(entry);
+
+      siftUp(entry.index);
+
+      arm();
+
+      return {
+        clear: () => {
+          if (entry.index === -1) {
+            return;
+          }
+
+          remove(entry);
+
+          arm();
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import type {
+  Clock,
+} from '../types';
+import {
+  createSystemClock,
+} from './createSystemClock';
+
+/**
+ * @property getAvailableTokens Produces the number of whole tokens in the bucket.
+ * @property getRefillDelay Produces the time in milliseconds until the bucket holds at least one token (0 if it does).
+ * @property take Removes tokens from the bucket.
+ */
+export type TokenBucket = {
+  readonly getAvailableTokens: () => number,
+  readonly getRefillDelay: () => number,
+  readonly take: (count: number) => void,
+};
+
+/**
+ * A token bucket that holds up to `limit` tokens and is refilled at the rate of `limit` tokens every `intervalMs` milliseconds.
+ * The bucket starts full.
+ */
+export const createTokenBucket = (limit: number, intervalMs: number, clock: Clock = createSystemClock()): TokenBucket => {
+  // Tokens are tracked in units of 1/intervalMs of a token to avoid accumulating floating point errors.
+  const capacity = limit * intervalMs;
+
+  let credit = capacity;
+
+  let refilledAt = clock.now();
+
+  const refill = () => {
+    const now = clock.now();
+
+    credit = Math.min(capacity, credit + (now - refilledAt) * limit);
+
+    refilledAt = now;
+  };
+
+  return {
+    getAvailableTokens: () => {
+      refill();
+
+      return Math.floor(credit / intervalMs);
+    },
+    getRefillDelay: () => {
+      refill();
+
+      return credit >= intervalMs ? 0 : Math.ceil((intervalMs - credit) / limit);
+    },
+    take: (count) => {
+      refill();
+
+      credit = Math.max(0, credit - count * intervalMs);
+    },
+  };
+};
@@ -0,0 +1,101 @@
+import type {
+  VirtualClock,
+} from '../types';
+
+type PendingTimer = {
+  readonly callback: () => void,
+  readonly dueAt: number,
+  // Timers that are due at the same time fire in the order in which they were created.
+  readonly sequence: number,
+};
+
+/**
+ * Lets the promise callbacks queued by the fired timers (and the callbacks that they queue) run.
+ */
+const settle = async () => {
+  await new Promise((resolve) => {
+    setImmediate(resolve);
+  });
+};
+
+/**
+ * Produces a clock whose time only moves when it is advanced using `advanceBy`.
+ *
+ * @param startTime The initial time in milliseconds since the Unix epoch.
+ */
+export const createVirtualClock = (startTime = 0): VirtualClock => {
+  let now = startTime;
+
+  let sequence = 0;
+
+  const pendingTimers = new Set<PendingTimer>();
+
+  const moveTo = (time: number) => {
+    now = Math.max(now, time);
+  };
+
+  const takeNextTimer = (until: number): PendingTimer | null => {
+    let nextTimer: PendingTimer | null = null;
+
+    for (const pendingTimer of pendingTimers) {
+      if (pendingTimer.dueAt > until) {
+        continue;
+      }
+
+      if (!nextTimer || pendingTimer.dueAt < nextTimer.dueAt || pendingTimer.dueAt === nextTimer.dueAt && pendingTimer.sequence < nextTimer.sequence) {
+        nextTimer = pendingTimer;
+      }
+    }
+
+    if (nextTimer) {
+      pendingTimers.delete(nextTimer);
+    }
+
+    return nextTimer;
+  };
+
+  return {
+    advanceBy: async (milliseconds) => {
+      const targetTime = now + milliseconds;
+
+      await settle();
+
+      let nextTimer = takeNextTimer(targetTime);
+
+      while (nextTimer) {
+        moveTo(nextTimer.dueAt);
+
+        nextTimer.callback();
+
+        await settle();
+
+        nextTimer = takeNextTimer(targetTime);
+      }
+
+      moveTo(targetTime);
+
+      await settle();
+    },
+    getTimerCount: () => {
+      return pendingTimers.size;
+    },
+    now: () => {
+      return now;
+    },
+    setTimeout: (callback, milliseconds) => {
+      const pendingTimer = {
+        callback,
+        dueAt: now + Math.max(0, milliseconds),
+        sequence: sequence++,
+      };
+
+      pendingTimers.add(pendingTimer);
+
+      return {
+        clear: () => {
+          pendingTimers.delete(pendingTimer);
+        },
+      };
+    },
+  };
+};
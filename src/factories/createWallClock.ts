@@ -0,0 +1,84 @@
+import {
+  UnexpectedStateError,
+} from '../errors';
+
+type WallClockTime = {
+  day: number,
+  hour: number,
+  minute: number,
+  month: number,
+  second: number,
+  year: number,
+};
+
+/**
+ * Wall clock time is represented as a UTC timestamp, i.e. as if the time zone was UTC.
+ *
+ * @property toInstant Converts wall clock timestamp to an instant. Produces `null` if the wall clock time does not exist in the time zone (e.g. it is skipped by a DST transition).
+ * @property toWallClockTimestamp Converts an instant to the wall clock timestamp (with the precision of a second).
+ */
+export type WallClock = {
+  readonly toInstant: (wallClockTimestamp: number) => number | null,
+  readonly toWallClockTimestamp: (instant: number) => number,
+};
+
+/**
+ * Converts between instants and wall clock time of the time zone (default: UTC).
+ * Time zones are resolved using the time zone database that is built into the runtime (`Intl`).
+ */
+export const createWallClock = (timeZone: string | undefined): WallClock => {
+  let dateTimeFormat: Intl.DateTimeFormat;
+
+  try {
+    dateTimeFormat = new Intl.DateTimeFormat('en-US', {
+      day: 'numeric',
+      hour: 'numeric',
+      hourCycle: 'h23',
+      minute: 'numeric',
+      month: 'numeric',
+      second: 'numeric',
+      timeZone: timeZone ?? 'UTC',
+      year: 'numeric',
+    });
+  } catch {
+    throw new UnexpectedStateError('Time zone "' + String(timeZone) + '" is not supported.');
+  }
+
+  const toWallClockTimestamp = (instant: number): number => {
+    const wallClockTime: WallClockTime = {
+      day: 0,
+      hour: 0,
+      minute: 0,
+      month: 0,
+      second: 0,
+      year: 0,
+    };
+
+    for (const part of dateTimeFormat.formatToParts(instant)) {
+      if (part.type in wallClockTime) {
+        wallClockTime[part.type as keyof WallClockTime] = Number(part.value);
+      }
+    }
+
+    return Date.UTC(wallClockTime.year, wallClockTime.month - 1, wallClockTime.day, wallClockTime.hour, wallClockTime.minute, wallClockTime.second);
+  };
+
+  const getTimeZoneOffset = (instant: number): number => {
+    return toWallClockTimestamp(instant) - Math.floor(instant / 1_000) * 1_000;
+  };
+
+  return {
+    toInstant: (wallClockTimestamp) => {
+      const firstGuess = wallClockTimestamp - getTimeZoneOffset(wallClockTimestamp);
+
+      const instant = wallClockTimestamp - getTimeZoneOffset(firstGuess);
+
+      if (toWallClockTimestamp(instant) !== wallClockTimestamp) {
+        return null;
+      }
+
+      return instant;
+    },
+    toWallClockTimestamp,
+  };
+};
@@ -1,3 +1,36 @@
+export {
+  createConstantBackoff,
+} from './createConstantBackoff';
+export {
+  createDecorrelatedJitterBackoff,
+} from './createDecorrelatedJitterBackoff';
+export {
+  createEqualJitterBackoff,
+} from './createEqualJitterBackoff';
+export {
+  createExponentialBackoff,
+} from './createExponentialBackoff';
+export {
+  createFileLockAdapter,
+} from './createFileLockAdapter';
+export {
+  createFullJitterBackoff,
+} from './createFullJitterBackoff';
+export {
+  createLinearBackoff,
+} from './createLinearBackoff';
+export {
+  createMemoryLockAdapter,
+} from './createMemoryLockAdapter';
+export {
+  createMetricsCollector,
+} from './createMetricsCollector';
 export {
   createPlanton,
 } from './createPlanton';
+export {
+  createTestPlanton,
+} from './createTestPlanton';
+export {
+  createVirtualClock,
+} from './createVirtualClock';
@@ -1,9 +1,82 @@
 export {
+  createConstantBackoff,
+  createDecorrelatedJitterBackoff,
+  createEqualJitterBackoff,
+  createExponentialBackoff,
+  createFullJitterBackoff,
+  createFileLockAdapter,
+  createLinearBackoff,
+  createMemoryLockAdapter,
+  createMetricsCollector,
   createPlanton,
 } from './factories';
+export {
+  handleShutdownSignals,
+} from './routines';
 export {
   PlantonError,
   InvalidTaskConfigurationNameError,
   DuplicateTaskNameError,
   UnexpectedTaskInstructionsError,
+  UnknownTaskNameError,
+  ScheduleTimeoutError,
+  TerminationTimeoutError,
+  TaskCallbackError,
+  GetActiveTaskInstructionsError,
+  CalculateDelayError,
+  CalculateLimitError,
+  GetInstructionKeyError,
+  TaskListenerError,
+  LockAdapterError,
 } from './errors';
+export type {
+  Blackout,
+  CalculateDelay,
+  CalculateLimit,
+  Clock,
+  ConcurrencySaturatedEvent,
+  CycleEndEvent,
+  DecisionLogEntry,
+  DedupeOptions,
+  DelayEvent,
+  DependencyCondition,
+  ErrorEvent,
+  Execute,
+  ExecuteContext,
+  ExecutionFailedEvent,
+  ExecutionSucceededEvent,
+  GetInstructionKey,
+  InstructionMap,
+  LockAdapter,
+  MetricsCollector,
+  Planton,
+  PlantonConfiguration,
+  PlantonEventMap,
+  RateLimit,
+  RateLimitState,
+  Schedule,
+  ScheduleConfiguration,
+  SchedulingErrorKind,
+  Span,
+  SpanAttributes,
+  SpanOptions,
+  SpanStatus,
+  StreamOptions,
+  TaskDependency,
+  TaskEvent,
+  TaskInput,
+  TaskInputs,
+  TaskInstruction,
+  TaskState,
+  TaskStateEvent,
+  TaskStatus,
+  TaskThrottledEvent,
+  TerminatedEvent,
+  TerminateOptions,
+  TimeWindow,
+  Timer,
+  Tracer,
+  ValidateInstruction,
+  Weekday,
+  WindowClosedEvent,
+} from './types';
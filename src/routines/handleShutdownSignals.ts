@@ -0,0 +1,77 @@
+import {
+  serializeError,
+} from 'serialize-error';
+import Logger from '../Logger';
+import type {
+  Planton,
+} from '../types';
+
+const log = Logger.child({
+  namespace: 'handleShutdownSignals',
+});
+
+/**
+ * @property signals Signals that initiate the shutdown. Default: SIGINT, SIGTERM.
+ * @property timeout Passed to `planton.terminate` (see `TerminateOptions`).
+ */
+type ShutdownSignalsConfiguration = {
+  readonly signals?: readonly NodeJS.Signals[],
+  readonly timeout?: number,
+};
+
+const DEFAULT_SIGNALS: readonly NodeJS.Signals[] = [
+  'SIGINT',
+  'SIGTERM',
+];
+
+/**
+ * Terminates Planton when the process receives one of the signals.
+ * Once Planton has been terminated, the signal is re-raised (unless other listeners handle it) to restore its default behaviour, i.e. to exit the process.
+ * A signal received while Planton is being terminated is not intercepted.
+ *
+ * Produces a function that removes the signal listeners.
+ */
+export const handleShutdownSignals = (
+  planton: Pick<Planton, 'terminate'>,
+  configuration: ShutdownSignalsConfiguration = {},
+): () => void => {
+  const {
+    signals = DEFAULT_SIGNALS,
+    timeout,
+  } = configuration;
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    for (const handledSignal of signals) {
+      process.off(handledSignal, shutdown);
+    }
+
+    log.info('received %s; terminating Planton', signal);
+
+    planton
+      .terminate({
+        timeout,
+      })
+      .catch((error) => {
+        log.error({
+          error: serializeError(error),
+        }, 'Planton did not terminate gracefully');
+
+        process.exitCode = 1;
+      })
+      .finally(() => {
+        if (process.listenerCount(signal) === 0) {
+          process.kill(process.pid, signal);
+        }
+      });
+  };
+
+  for (const signal of signals) {
+    process.on(signal, shutdown);
+  }
+
+  return () => {
+    for (const signal of signals) {
+      process.off(signal, shutdown);
+    }
+  };
+};
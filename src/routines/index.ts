@@ -0,0 +1,3 @@
+export {
+  handleShutdownSignals,
+} from './handleShutdownSignals';
@@ -0,0 +1,10 @@
+export {
+  createTestPlanton,
+  createVirtualClock,
+} from './factories';
+export type {
+  Clock,
+  TestPlanton,
+  Timer,
+  VirtualClock,
+} from './types';
@@ -1,10 +1,568 @@
+import type {
+  ErrorObject,
+} from 'serialize-error';
+
+// `Symbol.asyncDispose` is not part of the ES2018 library.
+declare global {
+  // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
+  interface SymbolConstructor {
+    readonly asyncDispose: unique symbol;
+  }
+}
+
 export type EventMap = Record<string, unknown>;
 
+/**
+ * @property clear Cancels the timer.
+ */
+export type Timer = {
+  readonly clear: () => void,
+};
+
+/**
+ * Time source and timers used by Planton.
+ *
+ * @property now Produces the current time in milliseconds since the Unix epoch.
+ * @property setTimeout Calls `callback` once `milliseconds` have elapsed.
+ */
+export type Clock = {
+  readonly now: () => number,
+  readonly setTimeout: (callback: () => void, milliseconds: number) => Timer,
+};
+
 type EventKey<T extends EventMap> = string & keyof T;
-type EventReceiver<T> = (parameters: T) => void;
+// Listeners may produce a promise, which is awaited when `awaitTaskListeners` is enabled.
+type EventReceiver<T> = (parameters: T) => Promise<void> | void;
 
 export type Emitter<T extends EventMap> = {
   emit: <K extends EventKey<T>>(eventName: K, parameters: T[K]) => void,
   off: <K extends EventKey<T>>(eventName: K, function_: EventReceiver<T[K]>) => void,
   on: <K extends EventKey<T>>(eventName: K, function_: EventReceiver<T[K]>) => void,
 };
+
+/**
+ * Describes the instruction type of every task, e.g. `{send_user_email: number, purge_tenant: {tenantId: number}}`.
+ */
+export type InstructionMap = Record<string, unknown>;
+
+export type DefaultInstructionMap = Record<string, string>;
+
+export type TaskName<M extends InstructionMap> = string & keyof M;
+
+/**
+ * Prevents TypeScript from inferring a type parameter from the wrapped position.
+ */
+export type NoInfer<T> = [T][T extends unknown ? 0 : never];
+
+export type TaskInstruction = string;
+
+/**
+ * A union of events (one for every task) discriminated by `taskName`.
+ */
+export type TaskEvent<M extends InstructionMap = DefaultInstructionMap> = {
+  [K in TaskName<M>]: {
+    readonly instruction: M[K],
+    readonly taskName: K,
+  };
+}[TaskName<M>];
+
+/**
+ * @property duration Time in milliseconds it took to execute the task instruction.
+ */
+export type ExecutionSucceededEvent<M extends InstructionMap = DefaultInstructionMap> = TaskEvent<M> & {
+  readonly duration: number,
+};
+
+/**
+ * @property duration Time in milliseconds it took to execute the task instruction.
+ * @property error Serialized error produced by `execute`.
+ */
+export type ExecutionFailedEvent<M extends InstructionMap = DefaultInstructionMap> = TaskEvent<M> & {
+  readonly duration: number,
+  readonly error: ErrorObject,
+};
+
+export type ErrorEvent = {
+  readonly error: Error,
+  readonly taskName: string,
+};
+
+export type TaskStateEvent = {
+  readonly taskName: string,
+};
+
+/**
+ * @property retryAfter Time in milliseconds until the rate limit allows the task to dispatch a task instruction.
+ */
+export type TaskThrottledEvent = TaskStateEvent & {
+  readonly retryAfter: number,
+};
+
+/**
+ * @property activeInstructionCount The number of active task instructions observed in the scheduling cycle. `null` if active task instructions could not be retrieved.
+ * @property duration Time in milliseconds it took to run the scheduling cycle.
+ * @property instructionCount The number of task instructions dispatched in the scheduling cycle.
+ * @property limit The limit passed to `schedule`. `null` if `schedule` has not been called.
+ */
+export type CycleEndEvent = TaskStateEvent & {
+  readonly activeInstructionCount: number | null,
+  readonly duration: number,
+  readonly instructionCount: number,
+  readonly limit: number | null,
+};
+
+/**
+ * @property attemptNumber The attempt number passed to `calculateDelay`.
+ * @property delay Time in milliseconds until the next scheduling cycle.
+ */
+export type DelayEvent = TaskStateEvent & {
+  readonly attemptNumber: number,
+  readonly delay: number,
+};
+
+/**
+ * @property activeInstructionCount The number of active task instructions observed in the scheduling cycle.
+ * @property concurrency The task concurrency.
+ */
+export type ConcurrencySaturatedEvent = TaskStateEvent & {
+  readonly activeInstructionCount: number,
+  readonly concurrency: number,
+};
+
+/**
+ * @property opensAt Time when the task is allowed to run again.
+ */
+export type WindowClosedEvent = TaskStateEvent & {
+  readonly opensAt: Date,
+};
+
+/**
+ * @property taskNames Names of the terminated tasks.
+ */
+export type TerminatedEvent = {
+  readonly taskNames: string[],
+};
+
+/**
+ * @property activeTaskInstructions A list of active task instructions as retrieved using `getActiveTaskInstructions`.
+ * @property concurrency The current concurrency setting value.
+ * @property limit A limit derived based on the value of `concurrency` and the number of `activeTaskInstructions` (CONCURRENCY - ACTIVE TASK INSTRUCTIONS = LIMIT).
+ * @property signal Aborted when `scheduleTimeout` is exceeded or the task is terminated.
+ * @property taskName Task name.
+ */
+export type ScheduleConfiguration<I = TaskInstruction, N extends string = string> = {
+  readonly activeTaskInstructions: I[],
+  readonly concurrency: number,
+  readonly limit: number,
+  readonly signal: AbortSignal,
+  readonly taskName: N,
+};
+
+/**
+ *
+ */
+export type Schedule<I = TaskInstruction, N extends string = string> = (configuration: ScheduleConfiguration<I, N>) => Promise<I[]>;
+
+/**
+ * Produces a number (time in milliseconds) representing how long Planton must wait before attempting `schedule` function.
+ */
+export type CalculateDelay = (attemptNumber: number) => Promise<number> | number;
+
+/**
+ * Produces a number indicating how many tasks can be scheduled at most.
+ */
+export type CalculateLimit<I = TaskInstruction> = (concurrency: number, activeTaskInstructions: I[]) => Promise<number> | number;
+
+/**
+ * Produces `true` if the value produced by `schedule` is a valid task instruction.
+ */
+export type ValidateInstruction = (instruction: unknown) => boolean;
+
+/**
+ * Produces a key that identifies the task instruction. Instructions with the same key are considered to be the same instruction.
+ */
+export type GetInstructionKey<I = TaskInstruction> = (instruction: I) => string;
+
+/**
+ * @property signal Aborted when the task is terminated or removed.
+ */
+export type ExecuteContext = {
+  readonly signal: AbortSignal,
+};
+
+/**
+ * Executes a task instruction. Planton considers the task instruction active until the returned promise settles.
+ */
+export type Execute<I = TaskInstruction> = (instruction: I, context: ExecuteContext) => Promise<void>;
+
+/**
+ * A lease-based lock used to ensure that only one Planton instance schedules the task at a time.
+ * Locks are identified by the task name; `owner` identifies the Planton instance; `ttl` is the lease duration in milliseconds.
+ *
+ * @property acquire Produces `true` if the lease has been acquired, i.e. the lock is not held by another owner or its lease has expired.
+ * @property release Releases the lease if it is held by the owner.
+ * @property renew Extends the lease. Produces `false` if the lease is no longer held by the owner.
+ */
+export type LockAdapter = {
+  readonly acquire: (lockName: string, owner: string, ttl: number) => Promise<boolean>,
+  readonly release: (lockName: string, owner: string) => Promise<void>,
+  readonly renew: (lockName: string, owner: string, ttl: number) => Promise<boolean>,
+};
+
+/**
+ * Describes why a scheduling cycle did not produce task instructions.
+ * `callback_error` describes errors produced by callbacks other than `schedule` and `calculateLimit` (e.g. `getActiveTaskInstructions`).
+ */
+export type SchedulingErrorKind = 'callback_error' | 'invalid_shape' | 'limit_error' | 'over_limit' | 'schedule_timeout' | 'scheduler_error';
+
+/**
+ * Records scheduling metrics. Planton updates the collector on every scheduling cycle. Durations and delays are in milliseconds.
+ *
+ * @property render Produces the recorded metrics in the Prometheus text exposition format.
+ */
+export type MetricsCollector = {
+  readonly incrementCycles: (taskName: string) => void,
+  readonly incrementDispatchedInstructions: (taskName: string, count: number) => void,
+  readonly incrementErrors: (taskName: string, kind: SchedulingErrorKind) => void,
+  readonly observeGetActiveTaskInstructionsDuration: (taskName: string, duration: number) => void,
+  readonly observeScheduleDuration: (taskName: string, duration: number) => void,
+  readonly render: () => string,
+  readonly setActiveInstructions: (taskName: string, count: number) => void,
+  readonly setAttemptNumber: (taskName: string, attemptNumber: number) => void,
+  readonly setDelay: (taskName: string, delay: number) => void,
+};
+
+export type SpanAttributes = Record<string, boolean | number | string>;
+
+/**
+ * @property attributes Attributes set when the span is started.
+ */
+export type SpanOptions = {
+  readonly attributes?: SpanAttributes,
+};
+
+/**
+ * @property code OpenTelemetry `SpanStatusCode`, i.e. 0 (unset), 1 (OK) or 2 (error).
+ */
+export type SpanStatus = {
+  readonly code: number,
+  readonly message?: string,
+};
+
+/**
+ * A subset of the OpenTelemetry `Span` API used by Planton.
+ */
+export type Span = {
+  readonly end: () => void,
+  readonly recordException: (exception: Error) => void,
+  readonly setAttributes: (attributes: SpanAttributes) => unknown,
+  readonly setStatus: (status: SpanStatus) => unknown,
+};
+
+/**
+ * A subset of the OpenTelemetry `Tracer` API used by Planton, i.e. OpenTelemetry tracers (`trace.getTracer('planton')`) can be used as they are.
+ */
+export type Tracer = {
+  readonly startActiveSpan: <F extends (span: Span) => unknown>(name: string, options: SpanOptions, function_: F) => ReturnType<F>,
+  readonly startSpan: (name: string, options?: SpanOptions) => Span,
+};
+
+/**
+ * @property idle The dependency has no active task instructions.
+ * @property lastCycleEmpty The last scheduling cycle of the dependency did not dispatch task instructions.
+ */
+export type DependencyCondition = 'idle' | 'lastCycleEmpty';
+
+/**
+ * @property condition Condition that the dependency must satisfy before the dependent task is scheduled.
+ * @property taskName Name of the task that the task depends on.
+ */
+export type TaskDependency<N extends string = string> = {
+  readonly condition: DependencyCondition,
+  readonly taskName: N,
+};
+
+/**
+ * @property maxSize The maximum number of remembered task instructions. Once exceeded, the oldest task instructions are forgotten. Default: 10000.
+ * @property ttl Time in milliseconds for which dispatched task instructions are remembered.
+ */
+export type DedupeOptions = {
+  readonly maxSize?: number,
+  readonly ttl: number,
+};
+
+export type Weekday = 'fri' | 'mon' | 'sat' | 'sun' | 'thu' | 'tue' | 'wed';
+
+/**
+ * A weekly recurring range of wall clock time (see `TaskInput.timeZone`).
+ *
+ * @property days Days of the week on which the window starts. Default: every day.
+ * @property end End of the window ("HH:mm", exclusive). Windows that do not end after `start` end on the next day, e.g. "22:00"–"06:00".
+ * @property start Start of the window ("HH:mm").
+ */
+export type TimeWindow = {
+  readonly days?: readonly Weekday[],
+  readonly end: string,
+  readonly start: string,
+};
+
+/**
+ * @property end End of the blackout (exclusive).
+ * @property start Start of the blackout.
+ * @property taskName Name of the task that the blackout applies to. Default: all tasks.
+ */
+export type Blackout<N extends string = string> = {
+  readonly end: Date,
+  readonly start: Date,
+  readonly taskName?: N,
+};
+
+/**
+ * @property intervalMs Time in milliseconds over which `limit` task instructions can be dispatched.
+ * @property limit The maximum number of task instructions dispatched per `intervalMs`.
+ */
+export type RateLimit = {
+  readonly intervalMs: number,
+  readonly limit: number,
+};
+
+/**
+ * @property availableTokens The number of task instructions that the task can dispatch before it is throttled.
+ * @property throttled Indicates that the rate limit does not allow the task to dispatch task instructions.
+ */
+export type RateLimitState = {
+  readonly availableTokens: number,
+  readonly throttled: boolean,
+};
+
+/**
+ * Task instructions that are not strings cannot be validated using the default validator, i.e. such tasks must provide `validateInstruction`.
+ */
+type InstructionValidation<I> = [I] extends [string] ? {
+  readonly validateInstruction?: ValidateInstruction,
+} : {
+  readonly validateInstruction: ValidateInstruction,
+};
+
+/**
+ * @property concurrency Together with `getActiveTaskInstructions`, the `concurrency` setting is used to generate `limit` value that is passed to task scheduler.
+ * @property cron A cron expression describing when to attempt `schedule` function. Alternative to `calculateDelay`.
+ * @property dedupe Drops task instructions that have been dispatched within the last `dedupe.ttl` milliseconds. Default: task instructions are not remembered.
+ * @property dependsOn Tasks that must satisfy a condition before the task is scheduled. Scheduling cycles are skipped until every condition is satisfied.
+ * @property dryRun Records the decisions of the scheduling cycles (see `Planton.getDecisionLog`) instead of dispatching task instructions. Overrides `dryRun` of Planton configuration.
+ * @property execute Executes task instructions produced by `schedule`. Planton tracks the executed task instructions in memory and uses them as the active task instructions (instead of `getActiveTaskInstructions`).
+ * @property getInstructionKey Used to compare task instructions against active task instructions. Default: the instruction itself (string instructions) or its JSON representation.
+ * @property lockAdapter Ensures that only one Planton instance schedules the task at a time. Overrides `lockAdapter` of Planton configuration.
+ * @property lockTtl Lease duration in milliseconds. The lease is renewed in the background while it is held. Default: 30000.
+ * @property name A unique name of the task. Used to identify task scheduler in errors and for tracking active task instructions (see `getActiveTaskInstructions`).
+ * @property priority Tasks with higher priority reserve the global concurrency budget first when it is contended. Requires `globalConcurrency`. Default: 0.
+ * @property rateLimit Limits the number of task instructions dispatched per time interval (token bucket). Constrains `limit` and delays the next scheduling cycle while the bucket is empty.
+ * @property scheduleTimeout Time in milliseconds after which `schedule` is aborted and the scheduling cycle is abandoned. Default: no timeout.
+ * @property timeZone An IANA time zone name (e.g. "America/New_York") used to evaluate `cron` expression and `windows`. Defaults to UTC.
+ * @property validateInstruction Validates every instruction produced by `schedule`. Default: instruction must be a string.
+ * @property weight The share of the global concurrency budget used by every active task instruction. Requires `globalConcurrency`. Default: 1.
+ * @property windows Time windows in which the task is allowed to run. Outside of the windows, `schedule` is not called and the task sleeps until a window opens. Default: the task can run at any time.
+ */
+export type TaskInput<I = TaskInstruction, N extends string = string, D extends string = string> = InstructionValidation<I> & {
+  readonly calculateDelay?: CalculateDelay,
+  readonly calculateLimit?: CalculateLimit<I>,
+  readonly concurrency?: number,
+  readonly cron?: string,
+  readonly dedupe?: DedupeOptions,
+  readonly dependsOn?: ReadonlyArray<TaskDependency<D>>,
+  readonly dryRun?: boolean,
+  readonly execute?: Execute<I>,
+  readonly getInstructionKey?: GetInstructionKey<I>,
+  readonly lockAdapter?: LockAdapter,
+  readonly lockTtl?: number,
+  readonly name: N,
+  readonly priority?: number,
+  readonly rateLimit?: RateLimit,
+  readonly schedule: Schedule<I, N>,
+  readonly scheduleTimeout?: number,
+  readonly timeZone?: string,
+  readonly weight?: number,
+  readonly windows?: readonly TimeWindow[],
+};
+
+/**
+ * A union of task inputs (one for every task in the instruction map).
+ */
+export type TaskInputs<M extends InstructionMap = DefaultInstructionMap> = {
+  [K in TaskName<M>]: TaskInput<M[K], K, TaskName<M>>;
+}[TaskName<M>];
+
+/**
+ * @property awaitTaskListeners Waits for the promises produced by `task` event listeners before completing the scheduling cycle. Default: false.
+ * @property batchWindow Time in milliseconds during which `getActiveTaskInstructionsBatch` calls of different tasks are coalesced into a single call. Default: 10.
+ * @property clock Time source and timers used to schedule the tasks (see `planton/testing`). Default: the system clock.
+ * @property cycleConcurrency The maximum number of scheduling cycles (across all tasks) that run at the same time. Tasks that are due wait for a free slot in the order in which they became due. Default: no limit.
+ * @property dryRun Runs every task in the dry-run mode (see `TaskInput.dryRun`). Default: false.
+ * @property getActiveTaskInstructions Returns list of tasks that are currently being executed. Used for concurrency control. Required unless every task uses `execute` (or `getActiveTaskInstructionsBatch` is configured).
+ * @property getActiveTaskInstructionsBatch Alternative to `getActiveTaskInstructions` that produces the active task instructions of multiple tasks at once. Tasks that are missing from the result do not have active task instructions.
+ * @property globalConcurrency The maximum number of active task instructions across all tasks (see `TaskInput.weight`). `limit` is constrained by the remaining budget. Default: no limit.
+ * @property lockAdapter Ensures that only one Planton instance schedules each task at a time (see `TaskInput.lockAdapter`).
+ * @property metrics Collects scheduling metrics of every task (see `createMetricsCollector`).
+ * @property tracer Produces a span for every scheduling cycle, with child spans for `getActiveTaskInstructions`, `calculateLimit` and `schedule`.
+ */
+export type PlantonConfiguration<M extends InstructionMap = DefaultInstructionMap> = {
+  readonly awaitTaskListeners?: boolean,
+  readonly batchWindow?: number,
+  readonly clock?: Clock,
+  readonly cycleConcurrency?: number,
+  readonly dryRun?: boolean,
+  readonly getActiveTaskInstructions?: (taskName: TaskName<M>) => Promise<Array<M[TaskName<M>]>>,
+  readonly getActiveTaskInstructionsBatch?: (taskNames: Array<TaskName<M>>) => Promise<{[K in TaskName<M>]?: Array<M[K]>}>,
+  readonly globalConcurrency?: number,
+  readonly lockAdapter?: LockAdapter,
+  readonly metrics?: MetricsCollector,
+  readonly tasks: Array<TaskInputs<M>>,
+  readonly tracer?: Tracer,
+};
+
+export type PlantonEventMap<M extends InstructionMap = DefaultInstructionMap> = {
+  concurrencySaturated: ConcurrencySaturatedEvent,
+  cycleEnd: CycleEndEvent,
+  cycleStart: TaskStateEvent,
+  delay: DelayEvent,
+  error: ErrorEvent,
+  executionFailed: ExecutionFailedEvent<M>,
+  executionSucceeded: ExecutionSucceededEvent<M>,
+  idle: TaskStateEvent,
+  instructionDeduplicated: TaskEvent<M>,
+  leaseAcquired: TaskStateEvent,
+  leaseLost: TaskStateEvent,
+  task: TaskEvent<M>,
+  taskPaused: TaskStateEvent,
+  taskResumed: TaskStateEvent,
+  taskTerminated: TaskStateEvent,
+  taskThrottled: TaskThrottledEvent,
+  terminated: TerminatedEvent,
+  windowClosed: WindowClosedEvent,
+  windowOpened: TaskStateEvent,
+};
+
+/**
+ * @property delaying Waiting for the next scheduling cycle.
+ * @property paused Paused using `pause`.
+ * @property polling Retrieving active task instructions and calculating the limit.
+ * @property scheduling Waiting for `schedule` to produce task instructions.
+ * @property terminated Terminated using `terminate`.
+ */
+export type TaskStatus = 'delaying' | 'paused' | 'polling' | 'scheduling' | 'terminated';
+
+/**
+ * A snapshot of the task state.
+ *
+ * @property attemptNumber The number of consecutive scheduling cycles that did not produce task instructions (see `calculateDelay`).
+ * @property concurrency The resolved concurrency setting value.
+ * @property lastCycleAt Time when the last scheduling cycle started.
+ * @property lastCycleDuration Time in milliseconds it took to complete the last scheduling cycle.
+ * @property lastError The last error produced while scheduling the task.
+ * @property lastInstructionCount The number of task instructions dispatched in the last scheduling cycle.
+ * @property nextAttemptAt Expected time of the next scheduling cycle. `null` if the next scheduling cycle is not yet known (e.g. while scheduling) or the task is paused or terminated.
+ * @property rateLimit The state of the task rate limit. `null` if the task does not use `rateLimit`.
+ */
+export type TaskState = {
+  readonly attemptNumber: number,
+  readonly concurrency: number,
+  readonly lastCycleAt: Date | null,
+  readonly lastCycleDuration: number | null,
+  readonly lastError: Error | null,
+  readonly lastInstructionCount: number | null,
+  readonly nextAttemptAt: Date | null,
+  readonly rateLimit: RateLimitState | null,
+  readonly status: TaskStatus,
+  readonly taskName: string,
+};
+
+/**
+ * Describes a scheduling cycle of a task that runs in the dry-run mode. Entries can be serialized using `JSON.stringify`.
+ *
+ * @property activeInstructionCount The number of active task instructions. `null` if active task instructions could not be retrieved.
+ * @property cycleAt Time when the scheduling cycle started.
+ * @property delay The delay chosen after the scheduling cycle. `null` until the delay is calculated.
+ * @property dispatchedInstructions Task instructions that would have been dispatched (emitted using `task` event).
+ * @property errors Serialized errors produced during the scheduling cycle, e.g. task instructions that failed validation.
+ * @property instructions Task instructions produced by `schedule`. `null` if `schedule` was not called or did not produce an array.
+ * @property limit The limit passed to `schedule`. `null` if `schedule` was not called.
+ */
+export type DecisionLogEntry = {
+  readonly activeInstructionCount: number | null,
+  readonly cycleAt: Date,
+  readonly delay: number | null,
+  readonly dispatchedInstructions: unknown[],
+  readonly errors: ErrorObject[],
+  readonly instructions: unknown[] | null,
+  readonly limit: number | null,
+  readonly taskName: string,
+};
+
+/**
+ * @property timeout Time in milliseconds to wait for the tasks to stop. Once exceeded, executions of the tasks that did not stop are aborted and `terminate` rejects with `TerminationTimeoutError`. Default: no timeout.
+ */
+export type TerminateOptions = {
+  readonly timeout?: number,
+};
+
+/**
+ * @property bufferSize The number of events of a task that can remain unconsumed when the task starts the next scheduling cycle. Default: 0.
+ */
+export type StreamOptions = {
+  readonly bufferSize?: number,
+};
+
+/**
+ * @property addBlackout Prevents the named task (or all tasks when task name is omitted) from running between `start` and `end`. Produces an ID of the blackout.
+ * @property addTask Registers a new task and starts its scheduling loop. Task input is validated the same way as when constructing Planton.
+ * @property getDecisionLog Produces the decision log of the named task (or all tasks when task name is omitted) that runs in the dry-run mode.
+ * @property getTaskState Produces a snapshot of the named task state.
+ * @property getTaskStates Produces a snapshot of the state of every task.
+ * @property pause Pauses the named task (or all tasks when task name is omitted). Resolves once the in-flight scheduling cycle (if any) has finished.
+ * @property removeBlackout Removes the blackout produced by `addBlackout`.
+ * @property removeTask Stops the task scheduling loop and unregisters the task. Resolves once the loop has finished.
+ * @property resume Resumes the named task (or all tasks when task name is omitted).
+ * @property stream Produces an async iterator of `task` events of the named task (or all tasks when task name is omitted). Tasks do not start the next scheduling cycle until the events are consumed.
+ * @property terminate Stops all tasks. Aborts the signals of in-flight `schedule` and `execute` calls. Resolves once all tasks have stopped.
+ * @property trigger Cuts short the current delay of the named task and runs a scheduling cycle. Resolves with the task instructions dispatched in that cycle.
+ */
+export type Planton<M extends InstructionMap = DefaultInstructionMap> = {
+  addBlackout: (blackout: Blackout<TaskName<M>>) => string,
+  addTask: (task: TaskInputs<M>) => void,
+  events: Emitter<PlantonEventMap<M>>,
+  getDecisionLog: (taskName?: TaskName<M>) => DecisionLogEntry[],
+  getTaskState: (taskName: TaskName<M>) => TaskState,
+  getTaskStates: () => TaskState[],
+  pause: (taskName?: TaskName<M>) => Promise<void>,
+  removeBlackout: (blackoutId: string) => void,
+  removeTask: (taskName: TaskName<M>) => Promise<void>,
+  resume: (taskName?: TaskName<M>) => void,
+  stream: (taskName?: TaskName<M>, options?: StreamOptions) => AsyncIterableIterator<TaskEvent<M>>,
+  terminate: (options?: TerminateOptions) => Promise<void>,
+  trigger: <K extends TaskName<M>>(taskName: K) => Promise<Array<M[K]>>,
+  [Symbol.asyncDispose]: () => Promise<void>,
+};
+
+/**
+ * A clock whose time only moves when it is advanced.
+ *
+ * @property advanceBy Moves the time forward by `milliseconds`, firing the due timers in order. Resolves once the work triggered by the timers has settled.
+ * @property getTimerCount Produces the number of pending timers.
+ */
+export type VirtualClock = Clock & {
+  readonly advanceBy: (milliseconds: number) => Promise<void>,
+  readonly getTimerCount: () => number,
+};
+
+/**
+ * A Planton instance bound to a virtual clock.
+ *
+ * @property advanceBy Moves the time forward by `milliseconds` (see `VirtualClock.advanceBy`).
+ * @property clock The virtual clock used by the Planton instance.
+ * @property runNextCycle Moves the time forward to the next scheduling cycle of the named task. Resolves once the cycle has completed.
+ */
+export type TestPlanton<M extends InstructionMap = DefaultInstructionMap> = Planton<M> & {
+  readonly advanceBy: (milliseconds: number) => Promise<void>,
+  readonly clock: VirtualClock,
+  readonly runNextCycle: (taskName: TaskName<M>) => Promise<void>,
+};
@@ -0,0 +1,132 @@
+/* eslint-disable no-console */
+
+/**
+ * Registers TASK_COUNT (default: 10000) tasks and reports the memory use and the number of timers of the scheduler core.
+ *
+ * Usage: npm run benchmark (use `node --expose-gc` for stable memory readings).
+ */
+
+import delay from 'delay';
+import {
+  createPlanton,
+} from '../../src/factories/createPlanton';
+import {
+  createSystemClock,
+} from '../../src/factories/createSystemClock';
+import type {
+  Clock,
+} from '../../src/types';
+
+const TASK_COUNT = Number(process.env.TASK_COUNT ?? 10_000);
+
+const DURATION = Number(process.env.DURATION ?? 3_000);
+
+/**
+ * Counts the timers of the underlying clock that have not fired or been cleared.
+ */
+const createCountingClock = () => {
+  const systemClock = createSystemClock();
+
+  let pendingTimerCount = 0;
+
+  const clock: Clock = {
+    now: systemClock.now,
+    setTimeout: (callback, milliseconds) => {
+      pendingTimerCount++;
+
+      let pending = true;
+
+      const settle = () => {
+        if (pending) {
+          pending = false;
+
+          pendingTimerCount--;
+        }
+      };
+
+      const timer = systemClock.setTimeout(() => {
+        settle();
+
+        callback();
+      }, milliseconds);
+
+      return {
+        clear: () => {
+          settle();
+
+          timer.clear();
+        },
+      };
+    },
+  };
+
+  return {
+    clock,
+    getPendingTimerCount: () => {
+      return pendingTimerCount;
+    },
+  };
+};
+
+const getHeapUsed = (): number => {
+  global.gc?.();
+
+  return process.memoryUsage().heapUsed;
+};
+
+const formatMegabytes = (bytes: number): string => {
+  return (bytes / 1_024 / 1_024).toFixed(1) + ' MB';
+};
+
+const main = async () => {
+  const {
+    clock,
+    getPendingTimerCount,
+  } = createCountingClock();
+
+  const heapUsedBefore = getHeapUsed();
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructionsBatch: async () => {
+      return {};
+    },
+    tasks: Array.from({
+      length: TASK_COUNT,
+    }, (_value, index) => {
+      return {
+        calculateDelay: () => {
+          return 500 + index % 500;
+        },
+        name: 'tenant_' + String(index),
+        schedule: async () => {
+          return [];
+        },
+      };
+    }),
+  });
+
+  let cycleCount = 0;
+
+  planton.events.on('cycleEnd', () => {
+    cycleCount++;
+  });
+
+  await delay(DURATION);
+
+  const heapUsedAfter = getHeapUsed();
+
+  const pendingTimerCount = getPendingTimerCount();
+
+  await planton.terminate();
+
+  console.table({
+    'clock timers': pendingTimerCount,
+    'heap used': formatMegabytes(heapUsedAfter - heapUsedBefore),
+    'heap used per task': (Math.round((heapUsedAfter - heapUsedBefore) / TASK_COUNT)) + ' B',
+    'scheduling cycles': cycleCount,
+    tasks: TASK_COUNT,
+  });
+};
+
+void main();
@@ -0,0 +1,73 @@
+import test from 'ava';
+import delay from 'delay';
+import {
+  stub,
+} from 'sinon';
+import {
+  createActiveTaskInstructionsBatcher,
+} from '../../../src/factories/createActiveTaskInstructionsBatcher';
+
+test('coalesces the loads requested within the batch window into a single call', async (t) => {
+  const getActiveTaskInstructionsBatch = stub().resolves({
+    bar: [
+      'b',
+    ],
+    foo: [
+      'a',
+    ],
+  });
+
+  const batcher = createActiveTaskInstructionsBatcher(getActiveTaskInstructionsBatch, 50);
+
+  const foo = batcher.load('foo');
+
+  await delay(10);
+
+  const bar = batcher.load('bar');
+
+  t.deepEqual(await foo, [
+    'a',
+  ]);
+
+  t.deepEqual(await bar, [
+    'b',
+  ]);
+
+  t.true(getActiveTaskInstructionsBatch.calledOnceWith([
+    'foo',
+    'bar',
+  ]));
+});
+
+test('produces an empty list for tasks that are missing from the result', async (t) => {
+  const batcher = createActiveTaskInstructionsBatcher(stub().resolves({}), 0);
+
+  t.deepEqual(await batcher.load('foo'), []);
+});
+
+test('starts a new batch once the batch has been dispatched', async (t) => {
+  const getActiveTaskInstructionsBatch = stub().resolves({});
+
+  const batcher = createActiveTaskInstructionsBatcher(getActiveTaskInstructionsBatch, 0);
+
+  await batcher.load('foo');
+  await batcher.load('foo');
+
+  t.is(getActiveTaskInstructionsBatch.callCount, 2);
+});
+
+test('rejects every load of the batch if the call fails', async (t) => {
+  const batcher = createActiveTaskInstructionsBatcher(stub().rejects(new Error('foo')), 0);
+
+  const results = await Promise.allSettled([
+    batcher.load('foo'),
+    batcher.load('bar'),
+  ]);
+
+  t.deepEqual(results.map((result) => {
+    return result.status;
+  }), [
+    'rejected',
+    'rejected',
+  ]);
+});
@@ -0,0 +1,82 @@
+import test from 'ava';
+import {
+  createConcurrencyBudget,
+} from '../../../src/factories/createConcurrencyBudget';
+
+test('constrains the limit to the remaining budget', (t) => {
+  const concurrencyBudget = createConcurrencyBudget(10);
+
+  concurrencyBudget.register('foo', 1, 0);
+  concurrencyBudget.register('bar', 1, 0);
+
+  concurrencyBudget.setActiveCount('foo', 6);
+  concurrencyBudget.setActiveCount('bar', 1);
+
+  t.is(concurrencyBudget.reserve('bar', 5), 3);
+
+  concurrencyBudget.commit('bar', 0);
+
+  t.is(concurrencyBudget.reserve('foo', 5), 3);
+});
+
+test('uses `weight` units of the budget for every task instruction', (t) => {
+  const concurrencyBudget = createConcurrencyBudget(10);
+
+  concurrencyBudget.register('foo', 3, 0);
+  concurrencyBudget.register('bar', 1, 0);
+
+  concurrencyBudget.setActiveCount('foo', 2);
+
+  t.is(concurrencyBudget.reserve('bar', 10), 4);
+  t.is(concurrencyBudget.reserve('foo', 10), 0);
+});
+
+test('counts reserved task instructions until the reservation is committed', (t) => {
+  const concurrencyBudget = createConcurrencyBudget(10);
+
+  concurrencyBudget.register('foo', 1, 0);
+  concurrencyBudget.register('bar', 1, 0);
+
+  t.is(concurrencyBudget.reserve('foo', 8), 8);
+  t.is(concurrencyBudget.reserve('bar', 8), 2);
+
+  concurrencyBudget.commit('foo', 3);
+
+  t.is(concurrencyBudget.reserve('bar', 8), 7);
+});
+
+test('withholds the budget that higher priority tasks could not reserve', (t) => {
+  const concurrencyBudget = createConcurrencyBudget(10);
+
+  concurrencyBudget.register('foo', 1, 1);
+  concurrencyBudget.register('bar', 1, 0);
+
+  concurrencyBudget.setActiveCount('bar', 8);
+
+  t.is(concurrencyBudget.reserve('foo', 5), 2);
+
+  concurrencyBudget.commit('foo', 2);
+
+  concurrencyBudget.setActiveCount('bar', 5);
+
+  t.is(concurrencyBudget.reserve('bar', 5), 0);
+
+  concurrencyBudget.withdraw('foo');
+
+  t.is(concurrencyBudget.reserve('bar', 5), 3);
+});
+
+test('releases the budget of unregistered tasks', (t) => {
+  const concurrencyBudget = createConcurrencyBudget(10);
+
+  concurrencyBudget.register('foo', 1, 0);
+  concurrencyBudget.register('bar', 1, 0);
+
+  concurrencyBudget.setActiveCount('foo', 10);
+
+  t.is(concurrencyBudget.reserve('bar', 5), 0);
+
+  concurrencyBudget.unregister('foo');
+
+  t.is(concurrencyBudget.reserve('bar', 5), 5);
+});
@@ -0,0 +1,22 @@
+import test from 'ava';
+import {
+  createConstantBackoff,
+} from '../../../src/factories/createConstantBackoff';
+
+test('produces the same delay for every attempt', (t) => {
+  const calculateDelay = createConstantBackoff({
+    delay: 100,
+  });
+
+  t.is(calculateDelay(0), 100);
+  t.is(calculateDelay(1), 100);
+  t.is(calculateDelay(10), 100);
+});
+
+test('throws if delay is lower than 0', (t) => {
+  t.throws(() => {
+    createConstantBackoff({
+      delay: -1,
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import test from 'ava';
+import {
+  createCronSchedule,
+} from '../../../src/factories/createCronSchedule';
+
+const next = (expression: string, after: string, timeZone?: string): string | undefined => {
+  return createCronSchedule(expression, timeZone).next(new Date(after))?.toISOString();
+};
+
+test('produces the next matching minute', (t) => {
+  t.is(next('*/15 * * * *', '2021-01-01T00:07:30.000Z'), '2021-01-01T00:15:00.000Z');
+});
+
+test('produces an instant strictly after the given instant', (t) => {
+  t.is(next('*/15 * * * *', '2021-01-01T00:15:00.000Z'), '2021-01-01T00:30:00.000Z');
+});
+
+test('supports the seconds field', (t) => {
+  t.is(next('*/10 * * * * *', '2021-01-01T00:00:05.500Z'), '2021-01-01T00:00:10.000Z');
+});
+
+test('supports ranges and lists', (t) => {
+  t.is(next('0 9-17 * * 1,3,5', '2021-01-01T18:00:00.000Z'), '2021-01-04T09:00:00.000Z');
+});
+
+test('supports month and weekday names', (t) => {
+  t.is(next('0 0 * feb mon', '2021-01-01T00:00:00.000Z'), '2021-02-01T00:00:00.000Z');
+});
+
+test('supports macros', (t) => {
+  t.is(next('@daily', '2021-01-01T12:00:00.000Z'), '2021-01-02T00:00:00.000Z');
+});
+
+test('treats 7 as Sunday', (t) => {
+  t.is(next('0 0 * * 7', '2021-01-01T00:00:00.000Z'), '2021-01-03T00:00:00.000Z');
+});
+
+test('matches either day of month or day of week when both are restricted', (t) => {
+  t.is(next('0 0 15 * 1', '2021-01-01T00:00:00.000Z'), '2021-01-04T00:00:00.000Z');
+});
+
+test('evaluates the expression in the given time zone', (t) => {
+  t.is(next('0 3 * * *', '2021-01-01T00:00:00.000Z', 'America/New_York'), '2021-01-01T08:00:00.000Z');
+  t.is(next('0 3 * * *', '2021-07-01T00:00:00.000Z', 'America/New_York'), '2021-07-01T07:00:00.000Z');
+});
+
+test('skips wall clock times that do not exist due to a DST transition', (t) => {
+  t.is(next('30 2 * * *', '2021-03-14T00:00:00.000Z', 'America/New_York'), '2021-03-15T06:30:00.000Z');
+});
+
+test('throws if expression has an unexpected number of fields', (t) => {
+  t.throws(() => {
+    createCronSchedule('* * *');
+  }, {
+    message: 'Cron expression must have 5 or 6 fields.',
+  });
+});
+
+test('throws if field value is out of range', (t) => {
+  t.throws(() => {
+    createCronSchedule('60 * * * *');
+  }, {
+    message: 'Cron expression minute field value "60" is out of range (0-59).',
+  });
+});
+
+test('throws if expression does not match any date', (t) => {
+  t.throws(() => {
+    createCronSchedule('0 0 30 2 *');
+  }, {
+    message: 'Cron expression does not match any date.',
+  });
+});
+
+test('throws if time zone is not supported', (t) => {
+  t.throws(() => {
+    createCronSchedule('* * * * *', 'Foo/Bar');
+  }, {
+    message: 'Time zone "Foo/Bar" is not supported.',
+  });
+});
@@ -0,0 +1,100 @@
+import test from 'ava';
+import {
+  createCycleLimiter,
+} from '../../../src/factories/createCycleLimiter';
+
+test('grants up to `cycleConcurrency` slots', async (t) => {
+  const cycleLimiter = createCycleLimiter(2);
+
+  const first = cycleLimiter.acquire();
+  const second = cycleLimiter.acquire();
+  const third = cycleLimiter.acquire();
+
+  await Promise.all([
+    first,
+    second,
+  ]);
+
+  t.is(cycleLimiter.getRunningCount(), 2);
+
+  let granted = false;
+
+  void third.then(() => {
+    granted = true;
+  });
+
+  await Promise.resolve();
+
+  t.false(granted);
+
+  first.release();
+
+  await third;
+
+  t.true(granted);
+  t.is(cycleLimiter.getRunningCount(), 2);
+});
+
+test('grants the slots in the order in which they were requested', async (t) => {
+  const cycleLimiter = createCycleLimiter(1);
+
+  const first = cycleLimiter.acquire();
+
+  const granted: string[] = [];
+
+  const second = cycleLimiter.acquire();
+  const third = cycleLimiter.acquire();
+
+  void second.then(() => {
+    granted.push('second');
+  });
+
+  void third.then(() => {
+    granted.push('third');
+  });
+
+  first.release();
+
+  await second;
+
+  second.release();
+
+  await third;
+
+  t.deepEqual(granted, [
+    'second',
+    'third',
+  ]);
+});
+
+test('releasing a slot that has not been granted stops waiting for it', async (t) => {
+  const cycleLimiter = createCycleLimiter(1);
+
+  const first = cycleLimiter.acquire();
+  const second = cycleLimiter.acquire();
+  const third = cycleLimiter.acquire();
+
+  second.release();
+
+  await second;
+
+  first.release();
+
+  await third;
+
+  t.is(cycleLimiter.getRunningCount(), 1);
+});
+
+test('clearing the wait does not grant the slot', async (t) => {
+  const cycleLimiter = createCycleLimiter(1);
+
+  const first = cycleLimiter.acquire();
+  const second = cycleLimiter.acquire();
+
+  second.clear();
+
+  await second;
+
+  t.true(first.isGranted());
+  t.false(second.isGranted());
+});
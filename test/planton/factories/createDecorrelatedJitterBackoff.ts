@@ -0,0 +1,54 @@
+import test from 'ava';
+import {
+  createDecorrelatedJitterBackoff,
+} from '../../../src/factories/createDecorrelatedJitterBackoff';
+
+test('derives delay from the previous delay', (t) => {
+  const calculateDelay = createDecorrelatedJitterBackoff({
+    base: 100,
+    cap: 60_000,
+    random: () => {
+      return 0.5;
+    },
+  });
+
+  t.is(calculateDelay(0), 100);
+
+  // 100 + 0.5 * (100 * 3 - 100)
+  t.is(calculateDelay(1), 200);
+
+  // 100 + 0.5 * (200 * 3 - 100)
+  t.is(calculateDelay(2), 350);
+});
+
+test('resets delay after an attempt that produced instructions', (t) => {
+  const calculateDelay = createDecorrelatedJitterBackoff({
+    base: 100,
+    cap: 60_000,
+    random: () => {
+      return 0.5;
+    },
+  });
+
+  t.is(calculateDelay(1), 200);
+  t.is(calculateDelay(2), 350);
+
+  t.is(calculateDelay(0), 100);
+  t.is(calculateDelay(1), 200);
+});
+
+test('does not exceed cap', (t) => {
+  const calculateDelay = createDecorrelatedJitterBackoff({
+    base: 100,
+    cap: 1_000,
+    random: () => {
+      return 0.999;
+    },
+  });
+
+  for (let attemptNumber = 1; attemptNumber < 10; attemptNumber++) {
+    t.true(calculateDelay(attemptNumber) <= 1_000);
+  }
+
+  t.is(calculateDelay(10), 1_000);
+});
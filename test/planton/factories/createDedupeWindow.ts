@@ -0,0 +1,50 @@
+import test from 'ava';
+import delay from 'delay';
+import {
+  createDedupeWindow,
+} from '../../../src/factories/createDedupeWindow';
+
+test('remembers added keys', (t) => {
+  const dedupeWindow = createDedupeWindow(1_000, 10);
+
+  dedupeWindow.add('foo');
+
+  t.true(dedupeWindow.has('foo'));
+  t.false(dedupeWindow.has('bar'));
+});
+
+test('forgets keys after `ttl`', async (t) => {
+  const dedupeWindow = createDedupeWindow(50, 10);
+
+  dedupeWindow.add('foo');
+
+  await delay(75);
+
+  t.false(dedupeWindow.has('foo'));
+});
+
+test('evicts the oldest keys once `maxSize` is exceeded', (t) => {
+  const dedupeWindow = createDedupeWindow(1_000, 2);
+
+  dedupeWindow.add('foo');
+  dedupeWindow.add('bar');
+  dedupeWindow.add('baz');
+
+  t.false(dedupeWindow.has('foo'));
+  t.true(dedupeWindow.has('bar'));
+  t.true(dedupeWindow.has('baz'));
+});
+
+test('re-adding a key extends its `ttl`', async (t) => {
+  const dedupeWindow = createDedupeWindow(100, 10);
+
+  dedupeWindow.add('foo');
+
+  await delay(60);
+
+  dedupeWindow.add('foo');
+
+  await delay(60);
+
+  t.true(dedupeWindow.has('foo'));
+});
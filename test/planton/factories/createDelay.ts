@@ -0,0 +1,38 @@
+import test from 'ava';
+import {
+  createDelay,
+} from '../../../src/factories/createDelay';
+
+test('resolves after the delay', async (t) => {
+  const startTime = Date.now();
+
+  await createDelay(50);
+
+  t.true(Date.now() - startTime >= 45);
+});
+
+test('resolves immediately when cleared', async (t) => {
+  t.timeout(100);
+
+  const delay = createDelay(1_000);
+
+  delay.clear();
+
+  await t.notThrowsAsync(delay);
+});
+
+test('supports delays longer than the maximum setTimeout delay', async (t) => {
+  let resolved = false;
+
+  const delay = createDelay(3_000_000_000);
+
+  void delay.then(() => {
+    resolved = true;
+  });
+
+  await createDelay(50);
+
+  t.false(resolved);
+
+  delay.clear();
+});
@@ -0,0 +1,42 @@
+import test from 'ava';
+import {
+  createEqualJitterBackoff,
+} from '../../../src/factories/createEqualJitterBackoff';
+
+test('produces a delay between half of and the full exponential back-off', (t) => {
+  const calculateDelay = createEqualJitterBackoff({
+    base: 100,
+    cap: 60_000,
+    random: () => {
+      return 0.5;
+    },
+  });
+
+  t.is(calculateDelay(0), 75);
+  t.is(calculateDelay(1), 150);
+  t.is(calculateDelay(2), 300);
+});
+
+test('does not go below half of the exponential back-off', (t) => {
+  const calculateDelay = createEqualJitterBackoff({
+    base: 100,
+    cap: 60_000,
+    random: () => {
+      return 0;
+    },
+  });
+
+  t.is(calculateDelay(2), 200);
+});
+
+test('does not exceed cap', (t) => {
+  const calculateDelay = createEqualJitterBackoff({
+    base: 100,
+    cap: 1_000,
+    random: () => {
+      return 0.999;
+    },
+  });
+
+  t.is(calculateDelay(100), 1_000);
+});
@@ -0,0 +1,48 @@
+import test from 'ava';
+import {
+  createExponentialBackoff,
+} from '../../../src/factories/createExponentialBackoff';
+
+test('doubles delay for every attempt', (t) => {
+  const calculateDelay = createExponentialBackoff({
+    base: 100,
+    cap: 60_000,
+  });
+
+  t.is(calculateDelay(0), 100);
+  t.is(calculateDelay(1), 200);
+  t.is(calculateDelay(2), 400);
+  t.is(calculateDelay(3), 800);
+});
+
+test('multiplies delay by factor for every attempt', (t) => {
+  const calculateDelay = createExponentialBackoff({
+    base: 100,
+    cap: 60_000,
+    factor: 3,
+  });
+
+  t.is(calculateDelay(0), 100);
+  t.is(calculateDelay(1), 300);
+  t.is(calculateDelay(2), 900);
+});
+
+test('does not exceed cap', (t) => {
+  const calculateDelay = createExponentialBackoff({
+    base: 100,
+    cap: 60_000,
+  });
+
+  t.is(calculateDelay(10), 60_000);
+  t.is(calculateDelay(10_000), 60_000);
+});
+
+test('throws if factor is lower than 1', (t) => {
+  t.throws(() => {
+    createExponentialBackoff({
+      base: 100,
+      cap: 60_000,
+      factor: 0.5,
+    });
+  });
+});
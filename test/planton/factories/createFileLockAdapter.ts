@@ -0,0 +1,113 @@
+import {
+  promises as fs,
+} from 'fs';
+import os from 'os';
+import path from 'path';
+import test from 'ava';
+import delay from 'delay';
+import {
+  createFileLockAdapter,
+} from '../../../src/factories/createFileLockAdapter';
+
+const createTemporaryDirectory = async () => {
+  return await fs.mkdtemp(path.join(os.tmpdir(), 'planton-'));
+};
+
+test('acquires a lock that is not held', async (t) => {
+  const directory = await createTemporaryDirectory();
+
+  const lockAdapter = createFileLockAdapter({
+    directory,
+  });
+
+  t.true(await lockAdapter.acquire('foo', 'a', 1_000));
+
+  await fs.rm(directory, {
+    recursive: true,
+  });
+});
+
+test('does not acquire a lock that is held by another adapter using the same directory', async (t) => {
+  const directory = await createTemporaryDirectory();
+
+  const firstLockAdapter = createFileLockAdapter({
+    directory,
+  });
+
+  const secondLockAdapter = createFileLockAdapter({
+    directory,
+  });
+
+  t.true(await firstLockAdapter.acquire('foo', 'a', 1_000));
+  t.false(await secondLockAdapter.acquire('foo', 'b', 1_000));
+  t.true(await secondLockAdapter.acquire('bar', 'b', 1_000));
+
+  await fs.rm(directory, {
+    recursive: true,
+  });
+});
+
+test('acquires a lock whose lease has expired', async (t) => {
+  const directory = await createTemporaryDirectory();
+
+  const lockAdapter = createFileLockAdapter({
+    directory,
+  });
+
+  await lockAdapter.acquire('foo', 'a', 50);
+
+  await delay(75);
+
+  t.true(await lockAdapter.acquire('foo', 'b', 1_000));
+  t.false(await lockAdapter.renew('foo', 'a', 1_000));
+
+  await fs.rm(directory, {
+    recursive: true,
+  });
+});
+
+test('renews a lease that is held by the owner', async (t) => {
+  const directory = await createTemporaryDirectory();
+
+  const lockAdapter = createFileLockAdapter({
+    directory,
+  });
+
+  await lockAdapter.acquire('foo', 'a', 50);
+
+  t.true(await lockAdapter.renew('foo', 'a', 1_000));
+
+  await delay(75);
+
+  t.false(await lockAdapter.acquire('foo', 'b', 1_000));
+
+  await fs.rm(directory, {
+    recursive: true,
+  });
+});
+
+test('releases a lease that is held by the owner', async (t) => {
+  const directory = await createTemporaryDirectory();
+
+  const lockAdapter = createFileLockAdapter({
+    directory,
+  });
+
+  await lockAdapter.acquire('foo', 'a', 1_000);
+
+  await lockAdapter.release('foo', 'b');
+
+  t.false(await lockAdapter.acquire('foo', 'b', 1_000));
+
+  await lockAdapter.release('foo', 'a');
+
+  t.true(await lockAdapter.acquire('foo', 'b', 1_000));
+
+  t.deepEqual(await fs.readdir(directory), [
+    'foo.lock',
+  ]);
+
+  await fs.rm(directory, {
+    recursive: true,
+  });
+});
@@ -0,0 +1,43 @@
+import test from 'ava';
+import {
+  createFullJitterBackoff,
+} from '../../../src/factories/createFullJitterBackoff';
+
+test('produces a random delay between 0 and the exponential back-off', (t) => {
+  const calculateDelay = createFullJitterBackoff({
+    base: 100,
+    cap: 60_000,
+    random: () => {
+      return 0.5;
+    },
+  });
+
+  t.is(calculateDelay(0), 50);
+  t.is(calculateDelay(1), 100);
+  t.is(calculateDelay(2), 200);
+});
+
+test('does not exceed cap', (t) => {
+  const calculateDelay = createFullJitterBackoff({
+    base: 100,
+    cap: 1_000,
+    random: () => {
+      return 0.999;
+    },
+  });
+
+  t.is(calculateDelay(100), 999);
+});
+
+test('uses Math.random by default', (t) => {
+  const calculateDelay = createFullJitterBackoff({
+    base: 100,
+    cap: 1_000,
+  });
+
+  for (let attemptNumber = 0; attemptNumber < 10; attemptNumber++) {
+    const delay = calculateDelay(attemptNumber) as number;
+
+    t.true(delay >= 0 && delay <= 1_000);
+  }
+});
@@ -0,0 +1,45 @@
+import test from 'ava';
+import {
+  createLinearBackoff,
+} from '../../../src/factories/createLinearBackoff';
+
+test('increases delay by base for every attempt', (t) => {
+  const calculateDelay = createLinearBackoff({
+    base: 100,
+  });
+
+  t.is(calculateDelay(0), 100);
+  t.is(calculateDelay(1), 200);
+  t.is(calculateDelay(2), 300);
+});
+
+test('increases delay by increment for every attempt', (t) => {
+  const calculateDelay = createLinearBackoff({
+    base: 100,
+    increment: 1_000,
+  });
+
+  t.is(calculateDelay(0), 100);
+  t.is(calculateDelay(1), 1_100);
+  t.is(calculateDelay(2), 2_100);
+});
+
+test('does not exceed cap', (t) => {
+  const calculateDelay = createLinearBackoff({
+    base: 100,
+    cap: 250,
+  });
+
+  t.is(calculateDelay(1), 200);
+  t.is(calculateDelay(2), 250);
+  t.is(calculateDelay(100), 250);
+});
+
+test('throws if cap is lower than base', (t) => {
+  t.throws(() => {
+    createLinearBackoff({
+      base: 100,
+      cap: 50,
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import test from 'ava';
+import delay from 'delay';
+import {
+  createMemoryLockAdapter,
+} from '../../../src/factories/createMemoryLockAdapter';
+
+test('acquires a lock that is not held', async (t) => {
+  const lockAdapter = createMemoryLockAdapter();
+
+  t.true(await lockAdapter.acquire('foo', 'a', 1_000));
+});
+
+test('does not acquire a lock that is held by another owner', async (t) => {
+  const lockAdapter = createMemoryLockAdapter();
+
+  await lockAdapter.acquire('foo', 'a', 1_000);
+
+  t.false(await lockAdapter.acquire('foo', 'b', 1_000));
+  t.true(await lockAdapter.acquire('bar', 'b', 1_000));
+});
+
+test('acquires a lock whose lease has expired', async (t) => {
+  const lockAdapter = createMemoryLockAdapter();
+
+  await lockAdapter.acquire('foo', 'a', 50);
+
+  await delay(75);
+
+  t.true(await lockAdapter.acquire('foo', 'b', 1_000));
+});
+
+test('renews a lease that is held by the owner', async (t) => {
+  const lockAdapter = createMemoryLockAdapter();
+
+  await lockAdapter.acquire('foo', 'a', 50);
+
+  await delay(25);
+
+  t.true(await lockAdapter.renew('foo', 'a', 100));
+
+  await delay(50);
+
+  t.false(await lockAdapter.acquire('foo', 'b', 1_000));
+});
+
+test('does not renew a lease that is held by another owner or has expired', async (t) => {
+  const lockAdapter = createMemoryLockAdapter();
+
+  await lockAdapter.acquire('foo', 'a', 50);
+
+  t.false(await lockAdapter.renew('foo', 'b', 1_000));
+
+  await delay(75);
+
+  t.false(await lockAdapter.renew('foo', 'a', 1_000));
+});
+
+test('releases a lease that is held by the owner', async (t) => {
+  const lockAdapter = createMemoryLockAdapter();
+
+  await lockAdapter.acquire('foo', 'a', 1_000);
+
+  await lockAdapter.release('foo', 'b');
+
+  t.false(await lockAdapter.acquire('foo', 'b', 1_000));
+
+  await lockAdapter.release('foo', 'a');
+
+  t.true(await lockAdapter.acquire('foo', 'b', 1_000));
+});
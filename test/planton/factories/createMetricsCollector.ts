@@ -0,0 +1,80 @@
+import test from 'ava';
+import {
+  createMetricsCollector,
+} from '../../../src/factories/createMetricsCollector';
+
+test('renders counters labelled by task name', (t) => {
+  const metrics = createMetricsCollector();
+
+  metrics.incrementCycles('foo');
+  metrics.incrementCycles('foo');
+  metrics.incrementCycles('bar');
+  metrics.incrementDispatchedInstructions('foo', 3);
+  metrics.incrementErrors('foo', 'over_limit');
+
+  const output = metrics.render();
+
+  t.true(output.includes('# HELP planton_cycles_total Number of scheduling cycles.\n# TYPE planton_cycles_total counter\n'));
+  t.true(output.includes('planton_cycles_total{taskName="foo"} 2\n'));
+  t.true(output.includes('planton_cycles_total{taskName="bar"} 1\n'));
+  t.true(output.includes('planton_dispatched_instructions_total{taskName="foo"} 3\n'));
+  t.true(output.includes('planton_errors_total{kind="over_limit",taskName="foo"} 1\n'));
+});
+
+test('renders gauges using the last value', (t) => {
+  const metrics = createMetricsCollector();
+
+  metrics.setActiveInstructions('foo', 5);
+  metrics.setActiveInstructions('foo', 2);
+  metrics.setAttemptNumber('foo', 4);
+  metrics.setDelay('foo', 1_500);
+
+  const output = metrics.render();
+
+  t.true(output.includes('# TYPE planton_active_instructions gauge\n'));
+  t.true(output.includes('planton_active_instructions{taskName="foo"} 2\n'));
+  t.true(output.includes('planton_attempt_number{taskName="foo"} 4\n'));
+  t.true(output.includes('planton_delay_seconds{taskName="foo"} 1.5\n'));
+});
+
+test('renders cumulative histogram buckets', (t) => {
+  const metrics = createMetricsCollector({
+    buckets: [
+      1,
+      0.1,
+    ],
+  });
+
+  metrics.observeScheduleDuration('foo', 50);
+  metrics.observeScheduleDuration('foo', 500);
+  metrics.observeScheduleDuration('foo', 5_000);
+
+  const output = metrics.render();
+
+  t.true(output.includes([
+    '# TYPE planton_schedule_duration_seconds histogram',
+    'planton_schedule_duration_seconds_bucket{taskName="foo",le="0.1"} 1',
+    'planton_schedule_duration_seconds_bucket{taskName="foo",le="1"} 2',
+    'planton_schedule_duration_seconds_bucket{taskName="foo",le="+Inf"} 3',
+    'planton_schedule_duration_seconds_sum{taskName="foo"} 5.55',
+    'planton_schedule_duration_seconds_count{taskName="foo"} 3',
+  ].join('\n')));
+});
+
+test('uses prefix', (t) => {
+  const metrics = createMetricsCollector({
+    prefix: 'foo_',
+  });
+
+  metrics.incrementCycles('bar');
+
+  t.true(metrics.render().includes('foo_cycles_total{taskName="bar"} 1\n'));
+});
+
+test('escapes label values', (t) => {
+  const metrics = createMetricsCollector();
+
+  metrics.incrementCycles('a"b\\c\nd');
+
+  t.true(metrics.render().includes('planton_cycles_total{taskName="a\\"b\\\\c\\nd"} 1\n'));
+});
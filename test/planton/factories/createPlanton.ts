@@ -3,9 +3,96 @@ import delay from 'delay';
 import {
   stub, spy,
 } from 'sinon';
+import {
+  createMemoryLockAdapter,
+} from '../../../src/factories/createMemoryLockAdapter';
+import {
+  createMetricsCollector,
+} from '../../../src/factories/createMetricsCollector';
 import {
   createPlanton,
 } from '../../../src/factories/createPlanton';
+import {
+  createVirtualClock,
+} from '../../../src/factories/createVirtualClock';
+import type {
+  Span,
+  SpanAttributes,
+  SpanOptions,
+  SpanStatus,
+  Tracer,
+} from '../../../src/types';
+
+type RecordedSpan = {
+  readonly attributes: SpanAttributes,
+  ended: boolean,
+  readonly exceptions: Error[],
+  readonly name: string,
+  readonly parent: RecordedSpan | null,
+  status: SpanStatus | null,
+};
+
+type RecordingSpan = Span & {
+  readonly recordedSpan: RecordedSpan,
+};
+
+/**
+ * Records spans in memory. Span parent is the span started using `startActiveSpan` (if any).
+ */
+const createInMemoryTracer = () => {
+  const spans: RecordedSpan[] = [];
+
+  let activeSpan: RecordedSpan | null = null;
+
+  const startSpan = (name: string, options?: SpanOptions): RecordingSpan => {
+    const recordedSpan: RecordedSpan = {
+      attributes: {
+        ...options?.attributes,
+      },
+      ended: false,
+      exceptions: [],
+      name,
+      parent: activeSpan,
+      status: null,
+    };
+
+    spans.push(recordedSpan);
+
+    return {
+      end: () => {
+        recordedSpan.ended = true;
+      },
+      recordedSpan,
+      recordException: (exception) => {
+        recordedSpan.exceptions.push(exception);
+      },
+      setAttributes: (attributes) => {
+        Object.assign(recordedSpan.attributes, attributes);
+      },
+      setStatus: (status) => {
+        recordedSpan.status = status;
+      },
+    };
+  };
+
+  const tracer = {
+    startActiveSpan: (name: string, options: SpanOptions, function_: (span: Span) => Promise<unknown>) => {
+      const span = startSpan(name, options);
+
+      activeSpan = span.recordedSpan;
+
+      return function_(span).finally(() => {
+        activeSpan = null;
+      });
+    },
+    startSpan,
+  } as unknown as Tracer;
+
+  return {
+    spans,
+    tracer,
+  };
+};
 
 test('schedules tasks at a interval', async (t) => {
   const schedule = stub()
@@ -833,3 +920,4214 @@ test('continues to attempt scheduling tasks that produce more instructions than
 
   await planton.terminate();
 });
+
+test('schedules tasks added after Planton is initiated', async (t) => {
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  planton.addTask({
+    calculateDelay: () => {
+      return 50;
+    },
+    name: 'foo',
+    schedule,
+  });
+
+  await delay(90);
+
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('throws if a task is added with a name that is already registered', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  const error = t.throws(() => {
+    planton.addTask({
+      calculateDelay: () => {
+        return 50;
+      },
+      name: 'foo',
+      schedule: async () => {
+        return [];
+      },
+    });
+  });
+
+  t.like(error, {
+    code: 'DUPLICATE_TASK_NAME',
+    duplicateTaskName: 'foo',
+  });
+
+  await planton.terminate();
+});
+
+test('throws if an added task has concurrency lower than 1', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  const error = t.throws(() => {
+    planton.addTask({
+      concurrency: 0,
+      name: 'foo',
+      schedule: async () => {
+        return [];
+      },
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task concurrency must be greater than 0.',
+  });
+
+  await planton.terminate();
+});
+
+test('throws if a task is added after Planton is terminated', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  await planton.terminate();
+
+  t.throws(() => {
+    planton.addTask({
+      name: 'foo',
+      schedule: async () => {
+        return [];
+      },
+    });
+  });
+});
+
+test('stops scheduling a task after it is removed', async (t) => {
+  const foo = stub()
+    .returns([]);
+
+  const bar = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: foo,
+      },
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'bar',
+        schedule: bar,
+      },
+    ],
+  });
+
+  await delay(75);
+
+  await planton.removeTask('foo');
+
+  await delay(100);
+
+  t.is(foo.callCount, 1);
+  t.true(bar.callCount > 1);
+
+  await planton.terminate();
+});
+
+test('removeTask waits for scheduling to complete', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          await delay(500);
+
+          return [];
+        },
+      },
+    ],
+  });
+
+  await delay(60);
+
+  const startRemoval = Date.now();
+
+  await planton.removeTask('foo');
+
+  t.true(Date.now() - startRemoval >= 400);
+
+  await planton.terminate();
+});
+
+test('allows to re-add a task after it is removed', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  await planton.removeTask('foo');
+
+  t.notThrows(() => {
+    planton.addTask({
+      name: 'foo',
+      schedule: async () => {
+        return [];
+      },
+    });
+  });
+
+  await planton.terminate();
+});
+
+test('removeTask rejects if task does not exist', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  const error = await t.throwsAsync(planton.removeTask('foo'));
+
+  t.like(error, {
+    code: 'UNKNOWN_TASK_NAME',
+    taskName: 'foo',
+  });
+
+  await planton.terminate();
+});
+
+test('does not schedule a paused task', async (t) => {
+  const foo = stub()
+    .returns([]);
+
+  const bar = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: foo,
+      },
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'bar',
+        schedule: bar,
+      },
+    ],
+  });
+
+  await planton.pause('foo');
+
+  await delay(120);
+
+  t.is(foo.callCount, 0);
+  t.is(bar.callCount, 2);
+
+  await planton.terminate();
+});
+
+test('resumes scheduling a paused task', async (t) => {
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  await planton.pause('foo');
+
+  await delay(100);
+
+  t.is(schedule.callCount, 0);
+
+  planton.resume('foo');
+
+  await delay(75);
+
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('pauses and resumes all tasks when task name is omitted', async (t) => {
+  const foo = stub()
+    .returns([]);
+
+  const bar = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: foo,
+      },
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'bar',
+        schedule: bar,
+      },
+    ],
+  });
+
+  await planton.pause();
+
+  await delay(100);
+
+  t.is(foo.callCount, 0);
+  t.is(bar.callCount, 0);
+
+  planton.resume();
+
+  await delay(75);
+
+  t.is(foo.callCount, 1);
+  t.is(bar.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('pause waits for scheduling to complete', async (t) => {
+  const schedule = stub()
+    .callsFake(async () => {
+      await delay(200);
+
+      return [];
+    });
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  await delay(50);
+
+  const startPause = Date.now();
+
+  await planton.pause('foo');
+
+  t.true(Date.now() - startPause >= 100);
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('pause cancels delay', async (t) => {
+  t.timeout(100);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 500;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  await delay(50);
+
+  await t.notThrowsAsync(planton.pause('foo'));
+
+  await planton.terminate();
+});
+
+test('terminates a paused task', async (t) => {
+  t.timeout(100);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  await planton.pause('foo');
+
+  await t.notThrowsAsync(planton.terminate());
+});
+
+test('tasks added while Planton is paused start paused', async (t) => {
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  await planton.pause();
+
+  planton.addTask({
+    calculateDelay: () => {
+      return 50;
+    },
+    name: 'foo',
+    schedule,
+  });
+
+  await delay(100);
+
+  t.is(schedule.callCount, 0);
+
+  await planton.terminate();
+});
+
+test('emits "taskPaused" and "taskResumed" events', async (t) => {
+  const taskPausedEventHandler = spy();
+  const taskResumedEventHandler = spy();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('taskPaused', taskPausedEventHandler);
+  planton.events.on('taskResumed', taskResumedEventHandler);
+
+  await planton.pause('foo');
+
+  // Pausing a paused task is not a state change.
+  await planton.pause('foo');
+
+  planton.resume('foo');
+
+  t.is(taskPausedEventHandler.callCount, 1);
+  t.deepEqual(taskPausedEventHandler.firstCall.firstArg, {
+    taskName: 'foo',
+  });
+
+  t.is(taskResumedEventHandler.callCount, 1);
+  t.deepEqual(taskResumedEventHandler.firstCall.firstArg, {
+    taskName: 'foo',
+  });
+
+  await planton.terminate();
+});
+
+test('pause rejects if task does not exist', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  const error = await t.throwsAsync(planton.pause('foo'));
+
+  t.like(error, {
+    code: 'UNKNOWN_TASK_NAME',
+    taskName: 'foo',
+  });
+
+  await planton.terminate();
+});
+
+test('trigger cuts short the current delay', async (t) => {
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 500;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  await delay(50);
+
+  t.is(schedule.callCount, 0);
+
+  await planton.trigger('foo');
+
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('trigger resolves with the task instructions dispatched in the cycle', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 500;
+        },
+        concurrency: 2,
+        name: 'foo',
+        schedule: async () => {
+          return [
+            'bar',
+            'baz',
+          ];
+        },
+      },
+    ],
+  });
+
+  t.deepEqual(await planton.trigger('foo'), [
+    'bar',
+    'baz',
+  ]);
+
+  await planton.terminate();
+});
+
+test('trigger resolves with an empty list when active tasks >= concurrency limit', async (t) => {
+  const schedule = stub()
+    .throws();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [
+        'foo',
+      ];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 500;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  t.deepEqual(await planton.trigger('foo'), []);
+  t.is(schedule.callCount, 0);
+
+  await planton.terminate();
+});
+
+test('triggers that arrive while a cycle is running are merged into one follow-up cycle', async (t) => {
+  const schedule = stub()
+    .callsFake(async () => {
+      await delay(100);
+
+      return [];
+    });
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 500;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  const firstTrigger = planton.trigger('foo');
+
+  await delay(50);
+
+  const secondTrigger = planton.trigger('foo');
+  const thirdTrigger = planton.trigger('foo');
+
+  await Promise.all([
+    firstTrigger,
+    secondTrigger,
+    thirdTrigger,
+  ]);
+
+  t.is(schedule.callCount, 2);
+
+  await delay(150);
+
+  t.is(schedule.callCount, 2);
+
+  await planton.terminate();
+});
+
+test('pending trigger resolves with an empty list when Planton is terminated', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  await planton.pause('foo');
+
+  const trigger = planton.trigger('foo');
+
+  await planton.terminate();
+
+  t.deepEqual(await trigger, []);
+});
+
+test('trigger rejects if task does not exist', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  const error = await t.throwsAsync(planton.trigger('foo'));
+
+  t.like(error, {
+    code: 'UNKNOWN_TASK_NAME',
+    taskName: 'foo',
+  });
+
+  await planton.terminate();
+});
+
+test('schedules tasks at instants matching the cron expression', async (t) => {
+  const scheduleTimes: number[] = [];
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        cron: '* * * * * *',
+        name: 'foo',
+        schedule: async () => {
+          scheduleTimes.push(Date.now());
+
+          return [];
+        },
+      },
+    ],
+  });
+
+  await delay(2_100);
+
+  t.true(scheduleTimes.length >= 2);
+
+  for (const scheduleTime of scheduleTimes) {
+    t.true(scheduleTime % 1_000 < 100);
+  }
+
+  await planton.terminate();
+});
+
+test('does not skip the cron instant when the task is triggered before it', async (t) => {
+  const clock = createVirtualClock(Date.parse('2024-01-15T01:00:00Z'));
+
+  const scheduleTimes: string[] = [];
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        cron: '0 3 * * *',
+        name: 'foo',
+        schedule: async () => {
+          scheduleTimes.push(new Date(clock.now()).toISOString());
+
+          return [];
+        },
+      },
+    ],
+  });
+
+  await clock.advanceBy(0);
+
+  await planton.trigger('foo');
+
+  t.is(planton.getTaskState('foo').nextAttemptAt?.toISOString(), '2024-01-15T03:00:00.000Z');
+
+  await clock.advanceBy(2 * 60 * 60 * 1_000);
+
+  t.deepEqual(scheduleTimes, [
+    '2024-01-15T01:00:00.000Z',
+    '2024-01-15T03:00:00.000Z',
+  ]);
+
+  t.is(planton.getTaskState('foo').nextAttemptAt?.toISOString(), '2024-01-16T03:00:00.000Z');
+
+  await planton.terminate();
+});
+
+test('does not skip the cron instant when the task is paused and resumed', async (t) => {
+  const clock = createVirtualClock(Date.parse('2024-01-15T01:00:00Z'));
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        cron: '0 3 * * *',
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  await clock.advanceBy(0);
+
+  await planton.pause('foo');
+
+  planton.resume('foo');
+
+  await clock.advanceBy(0);
+
+  t.is(planton.getTaskState('foo').nextAttemptAt?.toISOString(), '2024-01-15T03:00:00.000Z');
+
+  await clock.advanceBy(2 * 60 * 60 * 1_000);
+
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('throws if cron expression is invalid', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          cron: '* * *',
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Cron expression must have 5 or 6 fields.',
+    taskName: 'foo',
+  });
+});
+
+test('throws if cron time zone is invalid', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          cron: '* * * * *',
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+          timeZone: 'Foo/Bar',
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    taskName: 'foo',
+  });
+});
+
+test('throws if task uses both cron and calculateDelay', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          calculateDelay: () => {
+            return 100;
+          },
+          cron: '* * * * *',
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task cannot use both `cron` and `calculateDelay`.',
+  });
+});
+
+test('emits error and continues scheduling if `getActiveTaskInstructions` produces an error', async (t) => {
+  const eventHandler = spy();
+
+  const originalError = new Error('foo');
+
+  const getActiveTaskInstructions = stub()
+    .onFirstCall()
+    .rejects(originalError)
+    .returns([]);
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  planton.events.on('error', eventHandler);
+
+  await delay(120);
+
+  t.is(eventHandler.callCount, 1);
+  t.like(eventHandler.firstCall.firstArg.error, {
+    callbackName: 'getActiveTaskInstructions',
+    code: 'GET_ACTIVE_TASK_INSTRUCTIONS_ERROR',
+    originalError,
+    taskName: 'foo',
+  });
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('continues scheduling if `getActiveTaskInstructions` produces an error and the "error" event does not have listeners', async (t) => {
+  const clock = createVirtualClock();
+
+  const getActiveTaskInstructions = stub()
+    .onFirstCall()
+    .rejects(new Error('foo'))
+    .returns([]);
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructions,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  await clock.advanceBy(50);
+
+  t.is(getActiveTaskInstructions.callCount, 1);
+  t.is(planton.getTaskState('foo').status, 'delaying');
+
+  // The task retries after the default delay.
+  await clock.advanceBy(1_050);
+
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('emits error and continues scheduling if a "task" listener throws', async (t) => {
+  const eventHandler = spy();
+
+  const originalError = new Error('foo');
+
+  const schedule = stub()
+    .returns([
+      'bar',
+    ]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        getInstructionKey: () => {
+          return String(Math.random());
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  planton.events.on('error', eventHandler);
+
+  planton.events.on('task', () => {
+    throw originalError;
+  });
+
+  await delay(120);
+
+  t.like(eventHandler.firstCall.firstArg.error, {
+    callbackName: 'task listener',
+    originalError,
+    taskName: 'foo',
+  });
+  t.is(schedule.callCount, 2);
+
+  await planton.terminate();
+});
+
+test('emits error and continues scheduling if `calculateLimit` produces an error', async (t) => {
+  const eventHandler = spy();
+
+  const originalError = new Error('foo');
+
+  const calculateLimit = stub()
+    .onFirstCall()
+    .throws(originalError)
+    .returns(1);
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        calculateLimit,
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  planton.events.on('error', eventHandler);
+
+  await delay(120);
+
+  t.is(eventHandler.callCount, 1);
+  t.like(eventHandler.firstCall.firstArg.error, {
+    callbackName: 'calculateLimit',
+    code: 'CALCULATE_LIMIT_ERROR',
+    originalError,
+    taskName: 'foo',
+  });
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('emits error and continues scheduling if `calculateDelay` produces an error', async (t) => {
+  const eventHandler = spy();
+
+  const originalError = new Error('foo');
+
+  const calculateDelay = stub()
+    .onSecondCall()
+    .throws(originalError)
+    .returns(50);
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay,
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  planton.events.on('error', eventHandler);
+
+  await delay(1_100);
+
+  // The second delay falls back to the default delay (1 second).
+  t.is(eventHandler.callCount, 1);
+  t.like(eventHandler.firstCall.firstArg.error, {
+    callbackName: 'calculateDelay',
+    code: 'CALCULATE_DELAY_ERROR',
+    originalError,
+    taskName: 'foo',
+  });
+  t.is(schedule.callCount, 2);
+
+  await planton.terminate();
+});
+
+test('counts callback errors as attempts that did not produce results', async (t) => {
+  const getActiveTaskInstructions = stub()
+    .rejects(new Error('foo'));
+
+  const calculateDelay = stub()
+    .returns(50);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions,
+    tasks: [
+      {
+        calculateDelay,
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('error', () => {});
+
+  await delay(120);
+
+  t.is(calculateDelay.firstCall.firstArg, 0);
+  t.is(calculateDelay.secondCall.firstArg, 1);
+  t.is(calculateDelay.thirdCall.firstArg, 2);
+
+  await planton.terminate();
+});
+
+test('emits structured task instructions', async (t) => {
+  const eventHandler = spy();
+
+  const planton = createPlanton<{
+    foo: {
+      tenantId: number,
+      userId: number,
+    },
+  }>({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [
+            {
+              tenantId: 1,
+              userId: 2,
+            },
+          ];
+        },
+        validateInstruction: (instruction) => {
+          return typeof instruction === 'object' && instruction !== null;
+        },
+      },
+    ],
+  });
+
+  planton.events.on('task', eventHandler);
+
+  await delay(75);
+
+  t.is(eventHandler.callCount, 1);
+  t.deepEqual(eventHandler.firstCall.firstArg, {
+    instruction: {
+      tenantId: 1,
+      userId: 2,
+    },
+    taskName: 'foo',
+  });
+
+  await planton.terminate();
+});
+
+test('emits error if `validateInstruction` rejects a task instruction', async (t) => {
+  const eventHandler = spy();
+
+  const planton = createPlanton<{
+    foo: number,
+  }>({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [
+            -1,
+          ];
+        },
+        validateInstruction: (instruction) => {
+          return typeof instruction === 'number' && instruction > 0;
+        },
+      },
+    ],
+  });
+
+  planton.events.on('error', eventHandler);
+
+  await delay(75);
+
+  t.is(eventHandler.callCount, 1);
+  t.like(eventHandler.firstCall.firstArg.error, {
+    code: 'UNEXPECTED_TASK_INSTRUCTIONS',
+    unexpectedTaskInstructions: [
+      -1,
+    ],
+  });
+
+  await planton.terminate();
+});
+
+test('does not emit task instructions that are already active', async (t) => {
+  const eventHandler = spy();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [
+        'bar',
+      ];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 3,
+        name: 'foo',
+        schedule: async () => {
+          return [
+            'bar',
+            'baz',
+          ];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('task', eventHandler);
+
+  await delay(75);
+
+  t.is(eventHandler.callCount, 1);
+  t.is(eventHandler.firstCall.firstArg.instruction, 'baz');
+
+  await planton.terminate();
+});
+
+test('uses `getInstructionKey` to compare task instructions against active task instructions', async (t) => {
+  const eventHandler = spy();
+
+  const planton = createPlanton<{
+    foo: {
+      attempt: number,
+      userId: number,
+    },
+  }>({
+    getActiveTaskInstructions: async () => {
+      return [
+        {
+          attempt: 1,
+          userId: 1,
+        },
+      ];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 3,
+        getInstructionKey: (instruction) => {
+          return String(instruction.userId);
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [
+            {
+              attempt: 2,
+              userId: 1,
+            },
+            {
+              attempt: 1,
+              userId: 2,
+            },
+          ];
+        },
+        validateInstruction: (instruction) => {
+          return typeof instruction === 'object' && instruction !== null;
+        },
+      },
+    ],
+  });
+
+  planton.events.on('task', eventHandler);
+
+  await delay(75);
+
+  t.is(eventHandler.callCount, 1);
+  t.deepEqual(eventHandler.firstCall.firstArg.instruction, {
+    attempt: 1,
+    userId: 2,
+  });
+
+  await planton.terminate();
+});
+
+test('executes task instructions using `execute`', async (t) => {
+  const execute = stub()
+    .resolves();
+
+  const planton = createPlanton({
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        execute,
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'bar',
+          ])
+          .returns([]),
+      },
+    ],
+  });
+
+  await delay(75);
+
+  t.is(execute.callCount, 1);
+  t.is(execute.firstCall.args[0], 'bar');
+  t.true(execute.firstCall.args[1].signal instanceof AbortSignal);
+
+  await planton.terminate();
+});
+
+test('uses task instructions that are being executed as the active task instructions', async (t) => {
+  const schedule = stub()
+    .onFirstCall()
+    .returns([
+      'bar',
+    ])
+    .returns([]);
+
+  const planton = createPlanton({
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 2,
+        execute: async () => {
+          await delay(200);
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  await delay(120);
+
+  t.is(schedule.callCount, 2);
+  t.deepEqual(schedule.secondCall.firstArg.activeTaskInstructions, [
+    'bar',
+  ]);
+  t.is(schedule.secondCall.firstArg.limit, 1);
+
+  await delay(150);
+
+  t.deepEqual(schedule.lastCall.firstArg.activeTaskInstructions, []);
+
+  await planton.terminate();
+});
+
+test('tracks executions of task instructions that share the instruction key', async (t) => {
+  const schedule = stub()
+    .onFirstCall()
+    .returns([
+      'bar',
+      'bar',
+    ])
+    .returns([]);
+
+  const planton = createPlanton({
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 2,
+        execute: stub()
+          .onFirstCall()
+          .callsFake(async () => {
+            await delay(10);
+          })
+          .callsFake(async () => {
+            await delay(300);
+          }),
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  await delay(120);
+
+  t.deepEqual(schedule.secondCall.firstArg.activeTaskInstructions, [
+    'bar',
+  ]);
+  t.is(schedule.secondCall.firstArg.limit, 1);
+
+  await planton.terminate();
+});
+
+test('emits "executionSucceeded" event when execution succeeds', async (t) => {
+  const eventHandler = spy();
+
+  const planton = createPlanton({
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        execute: async () => {
+          await delay(20);
+        },
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'bar',
+          ])
+          .returns([]),
+      },
+    ],
+  });
+
+  planton.events.on('executionSucceeded', eventHandler);
+
+  await delay(100);
+
+  t.is(eventHandler.callCount, 1);
+  t.like(eventHandler.firstCall.firstArg, {
+    instruction: 'bar',
+    taskName: 'foo',
+  });
+  t.true(eventHandler.firstCall.firstArg.duration >= 15);
+
+  await planton.terminate();
+});
+
+test('emits "executionFailed" event when execution fails', async (t) => {
+  const eventHandler = spy();
+
+  const planton = createPlanton({
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        execute: async () => {
+          throw new Error('foo');
+        },
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'bar',
+          ])
+          .returns([]),
+      },
+    ],
+  });
+
+  planton.events.on('executionFailed', eventHandler);
+
+  await delay(75);
+
+  t.is(eventHandler.callCount, 1);
+  t.like(eventHandler.firstCall.firstArg, {
+    error: {
+      message: 'foo',
+      name: 'Error',
+    },
+    instruction: 'bar',
+    taskName: 'foo',
+  });
+  t.is(typeof eventHandler.firstCall.firstArg.duration, 'number');
+
+  await planton.terminate();
+});
+
+test('terminate aborts executions and waits for them to settle', async (t) => {
+  let aborted = false;
+
+  let settled = false;
+
+  const planton = createPlanton({
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        execute: async (_instruction, context) => {
+          await new Promise((resolve) => {
+            context.signal.addEventListener('abort', resolve);
+          });
+
+          aborted = true;
+
+          await delay(50);
+
+          settled = true;
+        },
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'bar',
+          ])
+          .returns([]),
+      },
+    ],
+  });
+
+  await delay(75);
+
+  await planton.terminate();
+
+  t.true(aborted);
+  t.true(settled);
+});
+
+test('throws if a task does not define `execute` and `getActiveTaskInstructions` is not configured', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      tasks: [
+        {
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task must define `execute` when `getActiveTaskInstructions` is not configured.',
+  });
+});
+
+test('reads active task instructions of multiple tasks using a single `getActiveTaskInstructionsBatch` call', async (t) => {
+  const getActiveTaskInstructionsBatch = stub().resolves({
+    foo: [
+      'a',
+    ],
+  });
+
+  const fooSchedule = stub().returns([]);
+  const barSchedule = stub().returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructionsBatch,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 2,
+        name: 'foo',
+        schedule: fooSchedule,
+      },
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'bar',
+        schedule: barSchedule,
+      },
+    ],
+  });
+
+  await delay(80);
+
+  await planton.terminate();
+
+  t.true(getActiveTaskInstructionsBatch.calledOnceWith([
+    'foo',
+    'bar',
+  ]));
+
+  t.like(fooSchedule.firstCall.args[0], {
+    activeTaskInstructions: [
+      'a',
+    ],
+    limit: 1,
+  });
+
+  t.like(barSchedule.firstCall.args[0], {
+    activeTaskInstructions: [],
+    limit: 1,
+  });
+});
+
+test('emits GetActiveTaskInstructionsError if `getActiveTaskInstructionsBatch` produces an error', async (t) => {
+  const onError = stub();
+
+  const planton = createPlanton({
+    batchWindow: 0,
+    getActiveTaskInstructionsBatch: async () => {
+      throw new Error('foo');
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('error', onError);
+
+  await planton.trigger('foo');
+
+  await planton.terminate();
+
+  t.like(onError.firstCall.args[0].error, {
+    callbackName: 'getActiveTaskInstructions',
+    code: 'GET_ACTIVE_TASK_INSTRUCTIONS_ERROR',
+  });
+});
+
+test('throws if both `getActiveTaskInstructions` and `getActiveTaskInstructionsBatch` are configured', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      getActiveTaskInstructionsBatch: async () => {
+        return {};
+      },
+      tasks: [],
+    });
+  });
+
+  t.is(error?.message, '`getActiveTaskInstructions` and `getActiveTaskInstructionsBatch` cannot be used together.');
+});
+
+test('schedules task only in the Planton instance that holds the task lease', async (t) => {
+  const lockAdapter = createMemoryLockAdapter();
+
+  const firstSchedule = stub()
+    .returns([]);
+
+  const secondSchedule = stub()
+    .returns([]);
+
+  const firstPlanton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    lockAdapter,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: firstSchedule,
+      },
+    ],
+  });
+
+  await delay(25);
+
+  const secondPlanton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    lockAdapter,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: secondSchedule,
+      },
+    ],
+  });
+
+  await delay(300);
+
+  t.true(firstSchedule.callCount > 0);
+  t.is(secondSchedule.callCount, 0);
+
+  await firstPlanton.terminate();
+  await secondPlanton.terminate();
+});
+
+test('releases the task lease when the task is terminated', async (t) => {
+  const lockAdapter = createMemoryLockAdapter();
+
+  const secondSchedule = stub()
+    .returns([]);
+
+  const firstPlanton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        lockAdapter,
+        name: 'foo',
+        schedule: stub()
+          .returns([]),
+      },
+    ],
+  });
+
+  await delay(75);
+
+  const secondPlanton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        lockAdapter,
+        name: 'foo',
+        schedule: secondSchedule,
+      },
+    ],
+  });
+
+  await delay(100);
+
+  t.is(secondSchedule.callCount, 0);
+
+  await firstPlanton.terminate();
+
+  await delay(100);
+
+  t.true(secondSchedule.callCount > 0);
+
+  await secondPlanton.terminate();
+});
+
+test('emits "leaseAcquired" event when the task lease is acquired', async (t) => {
+  const eventHandler = stub();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    lockAdapter: createMemoryLockAdapter(),
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: stub()
+          .returns([]),
+      },
+    ],
+  });
+
+  planton.events.on('leaseAcquired', eventHandler);
+
+  await delay(200);
+
+  t.is(eventHandler.callCount, 1);
+
+  t.deepEqual(eventHandler.firstCall.firstArg, {
+    taskName: 'foo',
+  });
+
+  await planton.terminate();
+});
+
+test('emits "leaseLost" event when the task lease cannot be renewed', async (t) => {
+  const eventHandler = stub();
+
+  const lockAdapter = createMemoryLockAdapter();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        lockAdapter: {
+          ...lockAdapter,
+          renew: async () => {
+            return false;
+          },
+        },
+        lockTtl: 90,
+        name: 'foo',
+        schedule: stub()
+          .returns([]),
+      },
+    ],
+  });
+
+  planton.events.on('leaseLost', eventHandler);
+
+  await delay(150);
+
+  t.true(eventHandler.callCount > 0);
+
+  t.deepEqual(eventHandler.firstCall.firstArg, {
+    taskName: 'foo',
+  });
+
+  await planton.terminate();
+});
+
+test('does not emit task instructions if the task lease is lost during the scheduling cycle', async (t) => {
+  const eventHandler = stub();
+
+  const lockAdapter = createMemoryLockAdapter();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        lockAdapter: {
+          ...lockAdapter,
+          renew: async () => {
+            return false;
+          },
+        },
+        lockTtl: 30,
+        name: 'foo',
+        schedule: async () => {
+          await delay(50);
+
+          return [
+            'bar',
+          ];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('task', eventHandler);
+
+  await delay(150);
+
+  t.is(eventHandler.callCount, 0);
+
+  await planton.terminate();
+});
+
+test('emits error if the lock adapter produces an error', async (t) => {
+  const eventHandler = stub();
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        lockAdapter: {
+          acquire: async () => {
+            throw new Error('foo');
+          },
+          release: async () => {},
+          renew: async () => {
+            return true;
+          },
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  planton.events.on('error', eventHandler);
+
+  await delay(75);
+
+  t.is(schedule.callCount, 0);
+
+  t.like(eventHandler.firstCall.firstArg.error, {
+    callbackName: 'lockAdapter.acquire',
+    code: 'LOCK_ADAPTER_ERROR',
+  });
+
+  await planton.terminate();
+});
+
+test('throws if `lockTtl` is used without `lockAdapter`', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          lockTtl: 1_000,
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task `lockTtl` requires `lockAdapter`.',
+  });
+});
+
+test('records scheduling cycle metrics', async (t) => {
+  const metrics = createMetricsCollector();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [
+        'baz',
+      ];
+    },
+    metrics,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 5,
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'bar',
+            'qux',
+          ])
+          .returns([]),
+      },
+    ],
+  });
+
+  await delay(125);
+
+  await planton.terminate();
+
+  const output = metrics.render();
+
+  t.true(output.includes('planton_cycles_total{taskName="foo"} 2\n'));
+  t.true(output.includes('planton_dispatched_instructions_total{taskName="foo"} 2\n'));
+  t.true(output.includes('planton_active_instructions{taskName="foo"} 1\n'));
+  t.true(output.includes('planton_attempt_number{taskName="foo"} 1\n'));
+  t.true(output.includes('planton_schedule_duration_seconds_count{taskName="foo"} 2\n'));
+});
+
+test('records scheduling errors by kind', async (t) => {
+  const metrics = createMetricsCollector();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    metrics,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .throws(new Error('foo'))
+          .onSecondCall()
+          .returns([
+            'bar',
+            'baz',
+          ])
+          .returns({}),
+      },
+    ],
+  });
+
+  planton.events.on('error', () => {});
+
+  await delay(175);
+
+  await planton.terminate();
+
+  const output = metrics.render();
+
+  t.true(output.includes('planton_errors_total{kind="scheduler_error",taskName="foo"} 1\n'));
+  t.true(output.includes('planton_errors_total{kind="over_limit",taskName="foo"} 1\n'));
+  t.true(output.includes('planton_errors_total{kind="invalid_shape",taskName="foo"} 1\n'));
+});
+
+test('produces a span for every scheduling cycle with child spans for every callback', async (t) => {
+  const {
+    spans,
+    tracer,
+  } = createInMemoryTracer();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 2,
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'bar',
+          ])
+          .returns([]),
+      },
+    ],
+    tracer,
+  });
+
+  await delay(75);
+
+  await planton.terminate();
+
+  const cycleSpan = spans[0];
+
+  t.like(cycleSpan, {
+    attributes: {
+      attemptNumber: 0,
+      concurrency: 2,
+      instructionCount: 1,
+      limit: 2,
+      taskName: 'foo',
+    },
+    ended: true,
+    name: 'planton.cycle',
+  });
+
+  t.deepEqual(spans.filter((span) => {
+    return span.parent === cycleSpan;
+  }).map((span) => {
+    return span.name;
+  }), [
+    'planton.getActiveTaskInstructions',
+    'planton.calculateLimit',
+    'planton.schedule',
+  ]);
+});
+
+test('records errors on spans', async (t) => {
+  const {
+    spans,
+    tracer,
+  } = createInMemoryTracer();
+
+  const error = new Error('foo');
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          throw error;
+        },
+      },
+    ],
+    tracer,
+  });
+
+  planton.events.on('error', () => {});
+
+  await delay(75);
+
+  await planton.terminate();
+
+  const scheduleSpan = spans.find((span) => {
+    return span.name === 'planton.schedule';
+  });
+
+  t.deepEqual(scheduleSpan?.exceptions, [
+    error,
+  ]);
+  t.like(scheduleSpan?.status, {
+    code: 2,
+    message: 'foo',
+  });
+  t.deepEqual(scheduleSpan?.parent?.exceptions, [
+    error,
+  ]);
+});
+
+test('reports task state', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 2,
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'bar',
+          ])
+          .returns([]),
+      },
+    ],
+  });
+
+  t.like(planton.getTaskState('foo'), {
+    attemptNumber: 0,
+    concurrency: 2,
+    lastCycleAt: null,
+    lastInstructionCount: null,
+    status: 'delaying',
+    taskName: 'foo',
+  });
+
+  await delay(75);
+
+  const taskState = planton.getTaskState('foo');
+
+  t.like(taskState, {
+    attemptNumber: 0,
+    lastError: null,
+    lastInstructionCount: 1,
+    status: 'delaying',
+  });
+
+  t.true(taskState.lastCycleAt instanceof Date);
+  t.true(taskState.nextAttemptAt instanceof Date && taskState.nextAttemptAt.getTime() > Date.now());
+
+  await planton.terminate();
+});
+
+test('reports "polling" and "scheduling" task status', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      await delay(50);
+
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 25;
+        },
+        name: 'foo',
+        schedule: async () => {
+          await delay(50);
+
+          return [];
+        },
+      },
+    ],
+  });
+
+  await delay(50);
+
+  t.is(planton.getTaskState('foo').status, 'polling');
+
+  await delay(50);
+
+  t.is(planton.getTaskState('foo').status, 'scheduling');
+
+  await planton.terminate();
+});
+
+test('reports "paused" and "terminated" task status', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  await planton.pause('foo');
+
+  t.like(planton.getTaskState('foo'), {
+    nextAttemptAt: null,
+    status: 'paused',
+  });
+
+  await planton.terminate();
+
+  t.deepEqual(planton.getTaskStates().map((taskState) => {
+    return taskState.status;
+  }), [
+    'terminated',
+  ]);
+});
+
+test('reports the last error and attempt number', async (t) => {
+  const error = new Error('foo');
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          throw error;
+        },
+      },
+    ],
+  });
+
+  planton.events.on('error', () => {});
+
+  await delay(125);
+
+  t.like(planton.getTaskState('foo'), {
+    attemptNumber: 2,
+    lastError: error,
+    lastInstructionCount: 0,
+  });
+
+  await planton.terminate();
+});
+
+test('getTaskState throws if task does not exist', (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  const error = t.throws(() => {
+    planton.getTaskState('foo');
+  });
+
+  t.like(error, {
+    code: 'UNKNOWN_TASK_NAME',
+  });
+});
+
+test('emits ScheduleTimeoutError if `schedule` does not produce a result within `scheduleTimeout`', async (t) => {
+  const eventHandler = stub();
+
+  const calculateDelay = stub()
+    .returns(50);
+
+  let signal: AbortSignal | undefined;
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay,
+        name: 'foo',
+        schedule: async (configuration) => {
+          signal = configuration.signal;
+
+          await delay(1_000);
+
+          return [
+            'bar',
+          ];
+        },
+        scheduleTimeout: 50,
+      },
+    ],
+  });
+
+  planton.events.on('error', eventHandler);
+
+  await delay(125);
+
+  t.true(signal?.aborted);
+
+  t.like(eventHandler.firstCall.firstArg.error, {
+    code: 'SCHEDULE_TIMEOUT',
+    scheduleTimeout: 50,
+    taskName: 'foo',
+  });
+
+  t.is(calculateDelay.secondCall.firstArg, 1);
+
+  await planton.terminate();
+});
+
+test('aborts `schedule` signal when Planton is terminated', async (t) => {
+  let signal: AbortSignal | undefined;
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async (configuration) => {
+          signal = configuration.signal;
+
+          await new Promise((resolve) => {
+            configuration.signal.addEventListener('abort', resolve);
+          });
+
+          return [];
+        },
+      },
+    ],
+  });
+
+  await delay(75);
+
+  t.false(signal?.aborted);
+
+  await planton.terminate();
+
+  t.true(signal?.aborted);
+});
+
+test('dispatches task instructions that `schedule` produces while Planton is terminated', async (t) => {
+  const onTask = stub();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .callsFake(async () => {
+            await delay(100);
+
+            return [
+              'bar',
+            ];
+          })
+          .returns([]),
+      },
+    ],
+  });
+
+  planton.events.on('task', onTask);
+
+  await delay(60);
+
+  const termination = planton.terminate();
+
+  t.is(planton.getTaskState('foo').status, 'scheduling');
+
+  await termination;
+
+  t.is(planton.getTaskState('foo').status, 'terminated');
+
+  t.true(onTask.calledOnceWith({
+    instruction: 'bar',
+    taskName: 'foo',
+  }));
+});
+
+test('terminate does not wait for `schedule` longer than `scheduleTimeout`', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          await delay(1_000);
+
+          return [];
+        },
+        scheduleTimeout: 100,
+      },
+    ],
+  });
+
+  await delay(60);
+
+  const startTermination = Date.now();
+
+  await planton.terminate();
+
+  t.true(Date.now() - startTermination < 500);
+});
+
+test('throws if `scheduleTimeout` is lower than 1', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+          scheduleTimeout: 0,
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task schedule timeout must be greater than 0.',
+  });
+});
+
+test('terminate rejects with TerminationTimeoutError if tasks do not stop within the timeout', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          await delay(1_000);
+
+          return [];
+        },
+      },
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'bar',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  await delay(75);
+
+  const startTermination = Date.now();
+
+  const error = await t.throwsAsync(planton.terminate({
+    timeout: 100,
+  }));
+
+  t.true(Date.now() - startTermination < 500);
+
+  t.like(error, {
+    code: 'TERMINATION_TIMEOUT',
+    taskNames: [
+      'foo',
+    ],
+    timeout: 100,
+  });
+});
+
+test('terminate resolves if tasks stop within the timeout', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          await delay(50);
+
+          return [];
+        },
+      },
+    ],
+  });
+
+  await delay(75);
+
+  await t.notThrowsAsync(planton.terminate({
+    timeout: 500,
+  }));
+});
+
+test('terminate aborts executions of tasks that do not stop within the timeout', async (t) => {
+  let signal: AbortSignal | undefined;
+
+  const planton = createPlanton({
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 2,
+        execute: async (_instruction, context) => {
+          signal = context.signal;
+
+          await delay(1_000);
+        },
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'bar',
+          ])
+          .callsFake(async () => {
+            await delay(1_000);
+
+            return [];
+          }),
+      },
+    ],
+  });
+
+  await delay(125);
+
+  await t.throwsAsync(planton.terminate({
+    timeout: 50,
+  }));
+
+  t.true(signal?.aborted);
+});
+
+test('Symbol.asyncDispose terminates Planton', async (t) => {
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  // eslint-disable-next-line canonical/no-use-extend-native
+  await planton[Symbol.asyncDispose]();
+
+  await delay(100);
+
+  t.is(schedule.callCount, 0);
+  t.is(planton.getTaskState('foo').status, 'terminated');
+});
+
+test('does not schedule a task until the tasks it depends on are idle', async (t) => {
+  let fooActiveTaskInstructions = [
+    'a',
+  ];
+
+  const barSchedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async (taskName) => {
+      return taskName === 'foo' ? fooActiveTaskInstructions : [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        dependsOn: [
+          {
+            condition: 'idle',
+            taskName: 'foo',
+          },
+        ],
+        name: 'bar',
+        schedule: barSchedule,
+      },
+    ],
+  });
+
+  await delay(200);
+
+  t.is(barSchedule.callCount, 0);
+
+  fooActiveTaskInstructions = [];
+
+  await delay(200);
+
+  t.true(barSchedule.callCount > 0);
+
+  await planton.terminate();
+});
+
+test('does not schedule a task until the last scheduling cycle of the tasks it depends on is empty', async (t) => {
+  let fooTaskInstructions = [
+    'a',
+  ];
+
+  const barSchedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        getInstructionKey: () => {
+          return String(Math.random());
+        },
+        name: 'foo',
+        schedule: async () => {
+          return fooTaskInstructions;
+        },
+      },
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        dependsOn: [
+          {
+            condition: 'lastCycleEmpty',
+            taskName: 'foo',
+          },
+        ],
+        name: 'bar',
+        schedule: barSchedule,
+      },
+    ],
+  });
+
+  await delay(200);
+
+  t.is(barSchedule.callCount, 0);
+
+  fooTaskInstructions = [];
+
+  await delay(200);
+
+  t.true(barSchedule.callCount > 0);
+
+  await planton.terminate();
+});
+
+test('throws if a task depends on an unknown task', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          dependsOn: [
+            {
+              condition: 'idle',
+              taskName: 'bar',
+            },
+          ],
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task depends on an unknown task "bar".',
+  });
+});
+
+test('throws if task dependencies form a cycle', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          dependsOn: [
+            {
+              condition: 'idle',
+              taskName: 'bar',
+            },
+          ],
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+        },
+        {
+          dependsOn: [
+            {
+              condition: 'lastCycleEmpty',
+              taskName: 'foo',
+            },
+          ],
+          name: 'bar',
+          schedule: async () => {
+            return [];
+          },
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task dependencies form a cycle (foo -> bar -> foo).',
+  });
+});
+
+test('addTask throws if the task depends on an unknown task', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  const error = t.throws(() => {
+    planton.addTask({
+      dependsOn: [
+        {
+          condition: 'idle',
+          taskName: 'bar',
+        },
+      ],
+      name: 'foo',
+      schedule: async () => {
+        return [];
+      },
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task depends on an unknown task "bar".',
+  });
+
+  await planton.terminate();
+});
+
+test('removeTask throws if another task depends on the task', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+      {
+        dependsOn: [
+          {
+            condition: 'idle',
+            taskName: 'foo',
+          },
+        ],
+        name: 'bar',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  const error = await t.throwsAsync(planton.removeTask('foo'));
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Cannot remove a task that task "bar" depends on.',
+    taskName: 'bar',
+  });
+
+  await planton.terminate();
+});
+
+test('constrains `limit` to the remaining global concurrency budget', async (t) => {
+  const barSchedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async (taskName) => {
+      return taskName === 'foo' ? [
+        'a',
+        'b',
+        'c',
+      ] : [];
+    },
+    globalConcurrency: 5,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 10,
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 10,
+        name: 'bar',
+        schedule: barSchedule,
+        weight: 2,
+      },
+    ],
+  });
+
+  await delay(200);
+
+  await planton.terminate();
+
+  t.like(barSchedule.lastCall.args[0], {
+    limit: 1,
+  });
+});
+
+test('does not call `schedule` when the global concurrency budget is exhausted', async (t) => {
+  const barSchedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async (taskName) => {
+      return taskName === 'foo' ? [
+        'a',
+        'b',
+      ] : [];
+    },
+    globalConcurrency: 2,
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 10,
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+      {
+        calculateDelay: () => {
+          return 100;
+        },
+        name: 'bar',
+        schedule: barSchedule,
+      },
+    ],
+  });
+
+  await delay(200);
+
+  await planton.terminate();
+
+  t.is(barSchedule.callCount, 0);
+});
+
+test('throws if `weight` is used without `globalConcurrency`', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+          weight: 2,
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task `weight` and `priority` require `globalConcurrency`.',
+  });
+});
+
+test('constrains `limit` to the number of task instructions allowed by `rateLimit`', async (t) => {
+  const schedule = stub()
+    .onFirstCall()
+    .returns([
+      'a',
+      'b',
+      'c',
+    ])
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        concurrency: 10,
+        name: 'foo',
+        rateLimit: {
+          intervalMs: 60_000,
+          limit: 5,
+        },
+        schedule,
+      },
+    ],
+  });
+
+  await delay(50);
+
+  await planton.terminate();
+
+  t.like(schedule.firstCall.args[0], {
+    limit: 5,
+  });
+
+  t.like(schedule.secondCall.args[0], {
+    limit: 2,
+  });
+});
+
+test('emits "taskThrottled" event and delays the next scheduling cycle when the rate limit is exhausted', async (t) => {
+  const onTaskThrottled = stub();
+
+  const schedule = stub()
+    .returns([]);
+
+  schedule.onFirstCall()
+    .returns([
+      'a',
+    ]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        getInstructionKey: () => {
+          return String(Math.random());
+        },
+        name: 'foo',
+        rateLimit: {
+          intervalMs: 200,
+          limit: 1,
+        },
+        schedule,
+      },
+    ],
+  });
+
+  planton.events.on('taskThrottled', onTaskThrottled);
+
+  await delay(50);
+
+  t.is(schedule.callCount, 1);
+
+  t.like(planton.getTaskState('foo'), {
+    rateLimit: {
+      availableTokens: 0,
+      throttled: true,
+    },
+  });
+
+  await delay(250);
+
+  await planton.terminate();
+
+  t.true(schedule.callCount > 1);
+  t.true(onTaskThrottled.firstCall.args[0].retryAfter > 0);
+});
+
+test('throws if `rateLimit` limit is not a positive integer', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          name: 'foo',
+          rateLimit: {
+            intervalMs: 1_000,
+            limit: 0,
+          },
+          schedule: async () => {
+            return [];
+          },
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task rate limit must be a positive integer.',
+  });
+});
+
+test('drops task instructions that have been dispatched within the dedupe window', async (t) => {
+  const onTask = stub();
+  const onInstructionDeduplicated = stub();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 2,
+        dedupe: {
+          ttl: 60_000,
+        },
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'a',
+          ])
+          .onSecondCall()
+          .returns([
+            'a',
+            'b',
+          ])
+          .returns([]),
+      },
+    ],
+  });
+
+  planton.events.on('task', onTask);
+  planton.events.on('instructionDeduplicated', onInstructionDeduplicated);
+
+  await delay(175);
+
+  await planton.terminate();
+
+  t.deepEqual(onTask.args, [
+    [
+      {
+        instruction: 'a',
+        taskName: 'foo',
+      },
+    ],
+    [
+      {
+        instruction: 'b',
+        taskName: 'foo',
+      },
+    ],
+  ]);
+
+  t.deepEqual(onInstructionDeduplicated.args, [
+    [
+      {
+        instruction: 'a',
+        taskName: 'foo',
+      },
+    ],
+  ]);
+});
+
+test('throws if `dedupe` TTL is lower than 1', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          dedupe: {
+            ttl: 0,
+          },
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Task dedupe TTL must be greater than 0.',
+  });
+});
+
+test('records the decision log instead of emitting "task" events in the dry-run mode', async (t) => {
+  const onTask = stub();
+
+  const planton = createPlanton({
+    dryRun: true,
+    getActiveTaskInstructions: async () => {
+      return [
+        'a',
+      ];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        concurrency: 3,
+        name: 'foo',
+        schedule: stub()
+          .onFirstCall()
+          .returns([
+            'b',
+          ])
+          .returns([]),
+      },
+    ],
+  });
+
+  planton.events.on('task', onTask);
+
+  await delay(125);
+
+  await planton.terminate();
+
+  t.false(onTask.called);
+
+  const [
+    decision,
+  ] = planton.getDecisionLog('foo');
+
+  t.like(decision, {
+    activeInstructionCount: 1,
+    delay: 50,
+    dispatchedInstructions: [
+      'b',
+    ],
+    errors: [],
+    instructions: [
+      'b',
+    ],
+    limit: 2,
+    taskName: 'foo',
+  });
+
+  t.true(decision.cycleAt instanceof Date);
+});
+
+test('records validation failures in the decision log', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        dryRun: true,
+        name: 'foo',
+        schedule: async () => {
+          return [
+            1,
+          ] as unknown as string[];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('error', () => {});
+
+  await delay(75);
+
+  await planton.terminate();
+
+  const [
+    decision,
+  ] = JSON.parse(JSON.stringify(planton.getDecisionLog()));
+
+  t.like(decision, {
+    dispatchedInstructions: [],
+    instructions: [
+      1,
+    ],
+  });
+
+  t.like(decision.errors[0], {
+    code: 'UNEXPECTED_TASK_INSTRUCTIONS',
+    name: 'UnexpectedTaskInstructionsError',
+  });
+});
+
+test('does not record the decision log of tasks that do not run in the dry-run mode', async (t) => {
+  const planton = createPlanton({
+    dryRun: true,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 50;
+        },
+        dryRun: false,
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  await delay(75);
+
+  await planton.terminate();
+
+  t.deepEqual(planton.getDecisionLog('foo'), []);
+});
+
+test('streams task events', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [
+            'bar',
+          ];
+        },
+      },
+    ],
+  });
+
+  const taskEvents = planton.stream('foo');
+
+  t.deepEqual(await taskEvents.next(), {
+    done: false,
+    value: {
+      instruction: 'bar',
+      taskName: 'foo',
+    },
+  });
+
+  await planton.terminate();
+});
+
+test('does not start the next scheduling cycle until the streamed task events are consumed', async (t) => {
+  const schedule = stub()
+    .returns([
+      'bar',
+    ]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        getInstructionKey: () => {
+          return String(Math.random());
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  const taskEvents = planton.stream('foo');
+
+  await taskEvents.next();
+
+  await delay(100);
+
+  t.is(schedule.callCount, 1);
+
+  await taskEvents.next();
+
+  t.is(schedule.callCount, 2);
+
+  await planton.terminate();
+});
+
+test('starts the next scheduling cycle while the stream buffer has space', async (t) => {
+  const schedule = stub()
+    .returns([
+      'bar',
+    ]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        getInstructionKey: () => {
+          return String(Math.random());
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  planton.stream('foo', {
+    bufferSize: 2,
+  });
+
+  await delay(100);
+
+  t.is(schedule.callCount, 3);
+
+  await planton.terminate();
+});
+
+test('ends the streams when Planton is terminated', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  const taskEvents = planton.stream();
+
+  setTimeout(() => {
+    void planton.terminate();
+  }, 50);
+
+  const receivedTaskEvents = [];
+
+  for await (const taskEvent of taskEvents) {
+    receivedTaskEvents.push(taskEvent);
+  }
+
+  t.deepEqual(receivedTaskEvents, []);
+});
+
+test('does not bypass the stream backpressure when the task is triggered', async (t) => {
+  const schedule = stub()
+    .returns([
+      'bar',
+    ]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        getInstructionKey: () => {
+          return String(Math.random());
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  const taskEvents = planton.stream('foo');
+
+  await taskEvents.next();
+
+  await delay(50);
+
+  void planton.trigger('foo');
+  void planton.trigger('foo');
+
+  await delay(50);
+
+  t.is(schedule.callCount, 1);
+
+  await taskEvents.next();
+
+  t.is(schedule.callCount, 2);
+
+  await planton.terminate();
+});
+
+test('ends the streams of the task when the task is removed', async (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 10;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  const taskEvents = planton.stream('foo');
+
+  setTimeout(() => {
+    void planton.removeTask('foo');
+  }, 50);
+
+  const receivedTaskEvents = [];
+
+  for await (const taskEvent of taskEvents) {
+    receivedTaskEvents.push(taskEvent);
+  }
+
+  t.deepEqual(receivedTaskEvents, []);
+
+  await planton.terminate();
+});
+
+test('waits for the promises produced by "task" listeners when `awaitTaskListeners` is enabled', async (t) => {
+  let resolveListener!: () => void;
+
+  const planton = createPlanton({
+    awaitTaskListeners: true,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [
+            'bar',
+          ];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('task', async () => {
+    await new Promise<void>((resolve) => {
+      resolveListener = resolve;
+    });
+  });
+
+  const onTrigger = stub();
+
+  void planton.trigger('foo').then(onTrigger);
+
+  await delay(50);
+
+  t.false(onTrigger.called);
+
+  resolveListener();
+
+  await delay(10);
+
+  t.true(onTrigger.called);
+
+  await planton.terminate();
+});
+
+test('emits TaskListenerError if a "task" listener rejects when `awaitTaskListeners` is enabled', async (t) => {
+  const onError = stub();
+
+  const planton = createPlanton({
+    awaitTaskListeners: true,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [
+            'bar',
+          ];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('error', onError);
+
+  planton.events.on('task', async () => {
+    throw new Error('foo');
+  });
+
+  await planton.trigger('foo');
+
+  await planton.terminate();
+
+  t.like(onError.firstCall.args[0].error, {
+    callbackName: 'task listener',
+    code: 'TASK_LISTENER_ERROR',
+  });
+});
+
+test('emits "cycleStart" and "cycleEnd" events', async (t) => {
+  const onCycleStart = stub();
+  const onCycleEnd = stub();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [
+        'baz',
+      ];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        concurrency: 3,
+        name: 'foo',
+        schedule: async () => {
+          return [
+            'bar',
+          ];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('cycleStart', onCycleStart);
+  planton.events.on('cycleEnd', onCycleEnd);
+
+  await planton.trigger('foo');
+
+  await planton.terminate();
+
+  t.deepEqual(onCycleStart.firstCall.args[0], {
+    taskName: 'foo',
+  });
+
+  t.like(onCycleEnd.firstCall.args[0], {
+    activeInstructionCount: 1,
+    instructionCount: 1,
+    limit: 2,
+    taskName: 'foo',
+  });
+
+  t.is(typeof onCycleEnd.firstCall.args[0].duration, 'number');
+});
+
+test('emits "delay" event', async (t) => {
+  const onDelay = stub();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('delay', onDelay);
+
+  await planton.trigger('foo');
+
+  await planton.terminate();
+
+  t.deepEqual(onDelay.secondCall.args[0], {
+    attemptNumber: 1,
+    delay: 60_000,
+    taskName: 'foo',
+  });
+});
+
+test('emits "concurrencySaturated" event when the number of active task instructions reaches the concurrency', async (t) => {
+  const onConcurrencySaturated = stub();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [
+        'bar',
+      ];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        concurrency: 1,
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('concurrencySaturated', onConcurrencySaturated);
+
+  await planton.trigger('foo');
+
+  await planton.terminate();
+
+  t.deepEqual(onConcurrencySaturated.firstCall.args[0], {
+    activeInstructionCount: 1,
+    concurrency: 1,
+    taskName: 'foo',
+  });
+});
+
+test('emits "idle" event when the task has no active task instructions and the scheduling cycle produces none', async (t) => {
+  const onIdle = stub();
+
+  const schedule = stub()
+    .onFirstCall()
+    .returns([
+      'bar',
+    ])
+    .returns([]);
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  planton.events.on('idle', onIdle);
+
+  await planton.trigger('foo');
+
+  t.false(onIdle.called);
+
+  await planton.trigger('foo');
+
+  await planton.terminate();
+
+  t.true(onIdle.calledOnceWith({
+    taskName: 'foo',
+  }));
+});
+
+test('emits "taskTerminated" and "terminated" events once', async (t) => {
+  const onTaskTerminated = stub();
+  const onTerminated = stub();
+
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'bar',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('taskTerminated', onTaskTerminated);
+  planton.events.on('terminated', onTerminated);
+
+  await planton.removeTask('bar');
+
+  t.true(onTaskTerminated.calledOnceWith({
+    taskName: 'bar',
+  }));
+
+  await planton.terminate();
+  await planton.terminate();
+
+  t.is(onTaskTerminated.callCount, 2);
+
+  t.true(onTaskTerminated.secondCall.calledWith({
+    taskName: 'foo',
+  }));
+
+  t.true(onTerminated.calledOnceWith({
+    taskNames: [
+      'foo',
+    ],
+  }));
+});
+
+test('does not run more than `cycleConcurrency` scheduling cycles at the same time', async (t) => {
+  let runningCount = 0;
+  let maximumRunningCount = 0;
+
+  const scheduledTaskNames: string[] = [];
+
+  const schedule = async ({
+    taskName,
+  }: {
+    taskName: string,
+  }) => {
+    runningCount++;
+
+    maximumRunningCount = Math.max(maximumRunningCount, runningCount);
+
+    scheduledTaskNames.push(taskName);
+
+    await delay(20);
+
+    runningCount--;
+
+    return [];
+  };
+
+  const planton = createPlanton({
+    cycleConcurrency: 1,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      'foo',
+      'bar',
+      'baz',
+    ].map((name) => {
+      return {
+        calculateDelay: () => {
+          return 10;
+        },
+        name,
+        schedule,
+      };
+    }),
+  });
+
+  await delay(100);
+
+  await planton.terminate();
+
+  t.is(maximumRunningCount, 1);
+
+  t.deepEqual(scheduledTaskNames.slice(0, 3), [
+    'foo',
+    'bar',
+    'baz',
+  ]);
+});
+
+test('does not exceed `cycleConcurrency` when a task waiting for a slot is paused and resumed', async (t) => {
+  let runningCount = 0;
+  let maximumRunningCount = 0;
+
+  const schedule = async () => {
+    runningCount++;
+
+    maximumRunningCount = Math.max(maximumRunningCount, runningCount);
+
+    await delay(100);
+
+    runningCount--;
+
+    return [];
+  };
+
+  const planton = createPlanton({
+    cycleConcurrency: 1,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      'foo',
+      'bar',
+    ].map((name) => {
+      return {
+        calculateDelay: () => {
+          return 10;
+        },
+        name,
+        schedule,
+      };
+    }),
+  });
+
+  await delay(50);
+
+  void planton.pause('bar');
+
+  planton.resume('bar');
+
+  await delay(100);
+
+  await planton.terminate();
+
+  t.is(maximumRunningCount, 1);
+});
+
+test('throws if `cycleConcurrency` is not a positive integer', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      cycleConcurrency: 0,
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [],
+    });
+  });
+
+  t.is(error?.message, 'Cycle concurrency must be a positive integer.');
+});
+
+test('delays the tasks using a single timer of the clock', async (t) => {
+  const clock = createVirtualClock();
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: Array.from({
+      length: 100,
+    }, (_value, index) => {
+      return {
+        calculateDelay: () => {
+          return 1_000 + index;
+        },
+        name: 'task_' + String(index),
+        schedule: async () => {
+          return [];
+        },
+      };
+    }),
+  });
+
+  await clock.advanceBy(0);
+
+  t.is(clock.getTimerCount(), 1);
+
+  await clock.advanceBy(1_100);
+
+  t.true(planton.getTaskStates().every((taskState) => {
+    return taskState.lastCycleAt !== null;
+  }));
+
+  t.is(clock.getTimerCount(), 1);
+
+  await planton.terminate();
+});
+
+test('sleeps until the task window opens instead of calling `schedule`', async (t) => {
+  // Monday, 06:00 UTC
+  const clock = createVirtualClock(Date.parse('2024-01-15T06:00:00Z'));
+
+  const calculateDelay = stub()
+    .returns(60_000);
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay,
+        name: 'foo',
+        schedule,
+        windows: [
+          {
+            end: '17:00',
+            start: '09:00',
+          },
+        ],
+      },
+    ],
+  });
+
+  await clock.advanceBy(2 * 60 * 60 * 1_000);
+
+  t.is(schedule.callCount, 0);
+  t.is(calculateDelay.callCount, 1);
+
+  t.deepEqual(planton.getTaskState('foo').nextAttemptAt, new Date('2024-01-15T09:00:00Z'));
+
+  await clock.advanceBy(60 * 60 * 1_000);
+
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('emits "windowClosed" and "windowOpened" events', async (t) => {
+  // Monday, 06:00 UTC
+  const clock = createVirtualClock(Date.parse('2024-01-15T06:00:00Z'));
+
+  const onWindowClosed = stub();
+  const onWindowOpened = stub();
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+        windows: [
+          {
+            end: '17:00',
+            start: '09:00',
+          },
+        ],
+      },
+    ],
+  });
+
+  planton.events.on('windowClosed', onWindowClosed);
+  planton.events.on('windowOpened', onWindowOpened);
+
+  await clock.advanceBy(2 * 60 * 60 * 1_000);
+
+  t.deepEqual(onWindowClosed.firstCall.args[0], {
+    opensAt: new Date('2024-01-15T09:00:00Z'),
+    taskName: 'foo',
+  });
+
+  t.true(onWindowOpened.notCalled);
+
+  await clock.advanceBy(60 * 60 * 1_000);
+
+  t.true(onWindowOpened.calledOnceWith({
+    taskName: 'foo',
+  }));
+
+  await planton.terminate();
+});
+
+test('does not schedule the task during a blackout', async (t) => {
+  const clock = createVirtualClock(Date.parse('2024-01-15T06:00:00Z'));
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  planton.addBlackout({
+    end: new Date('2024-01-15T06:10:00Z'),
+    start: new Date('2024-01-15T06:00:00Z'),
+    taskName: 'foo',
+  });
+
+  await clock.advanceBy(9 * 60 * 1_000);
+
+  t.is(schedule.callCount, 0);
+
+  await clock.advanceBy(60 * 1_000);
+
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('wakes up the task once the blackout is removed', async (t) => {
+  const clock = createVirtualClock(Date.parse('2024-01-15T06:00:00Z'));
+
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createPlanton({
+    clock,
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  const blackoutId = planton.addBlackout({
+    end: new Date('2024-01-15T07:00:00Z'),
+    start: new Date('2024-01-15T06:00:00Z'),
+  });
+
+  await clock.advanceBy(2 * 60 * 1_000);
+
+  t.is(schedule.callCount, 0);
+
+  planton.removeBlackout(blackoutId);
+
+  await clock.advanceBy(0);
+
+  t.is(schedule.callCount, 1);
+
+  await planton.terminate();
+});
+
+test('throws if task window is invalid', (t) => {
+  const error = t.throws(() => {
+    createPlanton({
+      getActiveTaskInstructions: async () => {
+        return [];
+      },
+      tasks: [
+        {
+          name: 'foo',
+          schedule: async () => {
+            return [];
+          },
+          windows: [
+            {
+              end: '17:00',
+              start: '9am',
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  t.like(error, {
+    code: 'INVALID_TASK_CONFIGURATION',
+    message: 'Window time "9am" must use the "HH:mm" format.',
+  });
+});
+
+test('throws if blackout does not end after it starts', (t) => {
+  const planton = createPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [],
+  });
+
+  const error = t.throws(() => {
+    planton.addBlackout({
+      end: new Date('2024-01-15T06:00:00Z'),
+      start: new Date('2024-01-15T07:00:00Z'),
+    });
+  });
+
+  t.is(error?.message, 'Blackout end must be after its start.');
+});
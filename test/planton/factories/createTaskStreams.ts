@@ -0,0 +1,150 @@
+import test from 'ava';
+import {
+  createTaskStreams,
+} from '../../../src/factories/createTaskStreams';
+
+test('streams the events of the subscribed task', async (t) => {
+  const taskStreams = createTaskStreams();
+
+  const stream = taskStreams.subscribe('foo', 10);
+
+  taskStreams.publish({
+    instruction: 'a',
+    taskName: 'bar',
+  });
+
+  taskStreams.publish({
+    instruction: 'b',
+    taskName: 'foo',
+  });
+
+  t.deepEqual(await stream.next(), {
+    done: false,
+    value: {
+      instruction: 'b',
+      taskName: 'foo',
+    },
+  });
+});
+
+test('has capacity while the number of unconsumed events does not exceed the buffer size', async (t) => {
+  const taskStreams = createTaskStreams();
+
+  const stream = taskStreams.subscribe(undefined, 1);
+
+  taskStreams.publish({
+    instruction: 'a',
+    taskName: 'foo',
+  });
+
+  let settled = false;
+
+  void taskStreams.waitForCapacity('foo').then(() => {
+    settled = true;
+  });
+
+  await Promise.resolve();
+
+  t.true(settled);
+
+  taskStreams.publish({
+    instruction: 'b',
+    taskName: 'foo',
+  });
+
+  settled = false;
+
+  void taskStreams.waitForCapacity('foo').then(() => {
+    settled = true;
+  });
+
+  await Promise.resolve();
+
+  t.false(settled);
+
+  // The first pulled event is not consumed until the next event is pulled.
+  await stream.next();
+
+  await Promise.resolve();
+
+  t.false(settled);
+
+  await stream.next();
+
+  await Promise.resolve();
+
+  t.true(settled);
+});
+
+test('releases the capacity waiters when the stream is returned', async (t) => {
+  const taskStreams = createTaskStreams();
+
+  const stream = taskStreams.subscribe('foo', 0);
+
+  taskStreams.publish({
+    instruction: 'a',
+    taskName: 'foo',
+  });
+
+  let settled = false;
+
+  void taskStreams.waitForCapacity('foo').then(() => {
+    settled = true;
+  });
+
+  await stream.return?.();
+
+  await Promise.resolve();
+
+  t.true(settled);
+});
+
+test('ends the streams when closed', async (t) => {
+  const taskStreams = createTaskStreams();
+
+  const stream = taskStreams.subscribe('foo', 0);
+
+  const result = stream.next();
+
+  taskStreams.close();
+
+  t.deepEqual(await result, {
+    done: true,
+    value: undefined,
+  });
+
+  t.deepEqual(await taskStreams.subscribe('foo', 0).next(), {
+    done: true,
+    value: undefined,
+  });
+});
+
+test('ends the streams of the closed task', async (t) => {
+  const taskStreams = createTaskStreams();
+
+  const fooStream = taskStreams.subscribe('foo', 0);
+
+  const allTasksStream = taskStreams.subscribe(undefined, 0);
+
+  const result = fooStream.next();
+
+  taskStreams.closeTask('foo');
+
+  t.deepEqual(await result, {
+    done: true,
+    value: undefined,
+  });
+
+  taskStreams.publish({
+    instruction: 'a',
+    taskName: 'bar',
+  });
+
+  t.deepEqual(await allTasksStream.next(), {
+    done: false,
+    value: {
+      instruction: 'a',
+      taskName: 'bar',
+    },
+  });
+});
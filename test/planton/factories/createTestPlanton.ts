@@ -0,0 +1,105 @@
+import test from 'ava';
+import {
+  stub,
+} from 'sinon';
+import {
+  createTestPlanton,
+} from '../../../src/factories/createTestPlanton';
+
+test('schedules tasks using the virtual clock', async (t) => {
+  const schedule = stub()
+    .returns([]);
+
+  const planton = createTestPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60_000;
+        },
+        name: 'foo',
+        schedule,
+      },
+    ],
+  });
+
+  await planton.advanceBy(59_999);
+
+  t.is(schedule.callCount, 0);
+
+  await planton.advanceBy(1);
+
+  t.is(schedule.callCount, 1);
+
+  await planton.advanceBy(120_000);
+
+  t.is(schedule.callCount, 3);
+
+  await planton.terminate();
+});
+
+test('runs the next scheduling cycle of the task', async (t) => {
+  const onTask = stub();
+
+  const planton = createTestPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        calculateDelay: () => {
+          return 60 * 60 * 1_000;
+        },
+        name: 'foo',
+        schedule: async () => {
+          return [
+            'bar',
+          ];
+        },
+      },
+    ],
+  });
+
+  planton.events.on('task', onTask);
+
+  await planton.runNextCycle('foo');
+
+  t.is(planton.clock.now(), 60 * 60 * 1_000);
+
+  t.deepEqual(onTask.args, [
+    [
+      {
+        instruction: 'bar',
+        taskName: 'foo',
+      },
+    ],
+  ]);
+
+  await planton.terminate();
+});
+
+test('runNextCycle throws if the task does not have a scheduled cycle', async (t) => {
+  const planton = createTestPlanton({
+    getActiveTaskInstructions: async () => {
+      return [];
+    },
+    tasks: [
+      {
+        name: 'foo',
+        schedule: async () => {
+          return [];
+        },
+      },
+    ],
+  });
+
+  await planton.pause('foo');
+
+  await t.throwsAsync(planton.runNextCycle('foo'), {
+    message: 'Task "foo" does not have a scheduled scheduling cycle.',
+  });
+
+  await planton.terminate();
+});
@@ -0,0 +1,100 @@
+import test from 'ava';
+import {
+  createTimeWindows,
+} from '../../../src/factories/createTimeWindows';
+
+test('produces `from` when it is within a window', (t) => {
+  const timeWindows = createTimeWindows([
+    {
+      end: '17:00',
+      start: '09:00',
+    },
+  ]);
+
+  const from = Date.parse('2024-01-15T12:00:00.500Z');
+
+  t.is(timeWindows.getNextOpening(from), from);
+});
+
+test('produces the start of the next window', (t) => {
+  const timeWindows = createTimeWindows([
+    {
+      end: '17:00',
+      start: '09:00',
+    },
+  ]);
+
+  t.is(timeWindows.getNextOpening(Date.parse('2024-01-15T06:00:00Z')), Date.parse('2024-01-15T09:00:00Z'));
+  t.is(timeWindows.getNextOpening(Date.parse('2024-01-15T17:00:00Z')), Date.parse('2024-01-16T09:00:00Z'));
+});
+
+test('windows that do not end after they start end on the next day', (t) => {
+  const timeWindows = createTimeWindows([
+    {
+      days: [
+        'mon',
+      ],
+      end: '06:00',
+      start: '22:00',
+    },
+  ]);
+
+  const from = Date.parse('2024-01-16T03:00:00Z');
+
+  t.is(timeWindows.getNextOpening(from), from);
+  t.is(timeWindows.getNextOpening(Date.parse('2024-01-16T06:00:00Z')), Date.parse('2024-01-22T22:00:00Z'));
+});
+
+test('opens on the allowed days of the week', (t) => {
+  const timeWindows = createTimeWindows([
+    {
+      days: [
+        'mon',
+        'tue',
+        'wed',
+        'thu',
+        'fri',
+      ],
+      end: '17:00',
+      start: '09:00',
+    },
+  ]);
+
+  // Saturday
+  t.is(timeWindows.getNextOpening(Date.parse('2024-01-20T12:00:00Z')), Date.parse('2024-01-22T09:00:00Z'));
+});
+
+test('evaluates the windows in the time zone', (t) => {
+  const timeWindows = createTimeWindows([
+    {
+      end: '17:00',
+      start: '09:00',
+    },
+  ], 'America/New_York');
+
+  t.is(timeWindows.getNextOpening(Date.parse('2024-01-15T13:00:00Z')), Date.parse('2024-01-15T14:00:00Z'));
+});
+
+test('opens at the first existing time when the start of the window is skipped by a DST transition', (t) => {
+  const timeWindows = createTimeWindows([
+    {
+      end: '04:00',
+      start: '02:30',
+    },
+  ], 'America/New_York');
+
+  t.is(timeWindows.getNextOpening(Date.parse('2024-03-10T06:00:00Z')), Date.parse('2024-03-10T07:00:00Z'));
+});
+
+test('throws if window time is invalid', (t) => {
+  const error = t.throws(() => {
+    createTimeWindows([
+      {
+        end: '25:00',
+        start: '09:00',
+      },
+    ]);
+  });
+
+  t.is(error?.message, 'Window time "25:00" is out of range.');
+});
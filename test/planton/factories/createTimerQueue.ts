@@ -0,0 +1,112 @@
+import test from 'ava';
+import {
+  createTimerQueue,
+} from '../../../src/factories/createTimerQueue';
+import {
+  createVirtualClock,
+} from '../../../src/factories/createVirtualClock';
+
+test('fires the timers in the order of their due time', async (t) => {
+  const clock = createVirtualClock();
+
+  const timerQueue = createTimerQueue(clock);
+
+  const calls: string[] = [];
+
+  timerQueue.setTimeout(() => {
+    calls.push('c');
+  }, 300);
+
+  timerQueue.setTimeout(() => {
+    calls.push('a');
+  }, 100);
+
+  timerQueue.setTimeout(() => {
+    calls.push('b');
+  }, 200);
+
+  timerQueue.setTimeout(() => {
+    calls.push('d');
+  }, 300);
+
+  await clock.advanceBy(250);
+
+  t.deepEqual(calls, [
+    'a',
+    'b',
+  ]);
+
+  await clock.advanceBy(50);
+
+  t.deepEqual(calls, [
+    'a',
+    'b',
+    'c',
+    'd',
+  ]);
+});
+
+test('uses a single timer of the underlying clock', async (t) => {
+  const clock = createVirtualClock();
+
+  const timerQueue = createTimerQueue(clock);
+
+  for (let index = 0; index < 100; index++) {
+    timerQueue.setTimeout(() => {}, 100 + index);
+  }
+
+  t.is(timerQueue.getTimerCount(), 100);
+  t.is(clock.getTimerCount(), 1);
+
+  await clock.advanceBy(1_000);
+
+  t.is(timerQueue.getTimerCount(), 0);
+  t.is(clock.getTimerCount(), 0);
+});
+
+test('does not fire cleared timers', async (t) => {
+  const clock = createVirtualClock();
+
+  const timerQueue = createTimerQueue(clock);
+
+  const calls: string[] = [];
+
+  const timer = timerQueue.setTimeout(() => {
+    calls.push('a');
+  }, 100);
+
+  timerQueue.setTimeout(() => {
+    calls.push('b');
+  }, 200);
+
+  timer.clear();
+
+  await clock.advanceBy(200);
+
+  t.deepEqual(calls, [
+    'b',
+  ]);
+});
+
+test('fires timers that are added while timers are being fired', async (t) => {
+  const clock = createVirtualClock();
+
+  const timerQueue = createTimerQueue(clock);
+
+  const calls: string[] = [];
+
+  timerQueue.setTimeout(() => {
+    calls.push('a');
+
+    timerQueue.setTimeout(() => {
+      calls.push('b');
+    }, 100);
+  }, 100);
+
+  await clock.advanceBy(200);
+
+  t.deepEqual(calls, [
+    'a',
+    'b',
+  ]);
+});
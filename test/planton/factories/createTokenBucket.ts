@@ -0,0 +1,54 @@
+import test from 'ava';
+import delay from 'delay';
+import {
+  createTokenBucket,
+} from '../../../src/factories/createTokenBucket';
+
+test('starts full', (t) => {
+  const tokenBucket = createTokenBucket(10, 1_000);
+
+  t.is(tokenBucket.getAvailableTokens(), 10);
+  t.is(tokenBucket.getRefillDelay(), 0);
+});
+
+test('removes tokens', (t) => {
+  const tokenBucket = createTokenBucket(10, 1_000);
+
+  tokenBucket.take(7);
+
+  t.is(tokenBucket.getAvailableTokens(), 3);
+
+  tokenBucket.take(5);
+
+  t.is(tokenBucket.getAvailableTokens(), 0);
+});
+
+test('produces the time until the next token', (t) => {
+  const tokenBucket = createTokenBucket(10, 1_000);
+
+  tokenBucket.take(10);
+
+  const refillDelay = tokenBucket.getRefillDelay();
+
+  t.true(refillDelay > 90 && refillDelay <= 100);
+});
+
+test('refills tokens over time', async (t) => {
+  const tokenBucket = createTokenBucket(10, 1_000);
+
+  tokenBucket.take(10);
+
+  await delay(250);
+
+  t.is(tokenBucket.getAvailableTokens(), 2);
+});
+
+test('does not refill tokens beyond the limit', async (t) => {
+  const tokenBucket = createTokenBucket(2, 50);
+
+  tokenBucket.take(1);
+
+  await delay(100);
+
+  t.is(tokenBucket.getAvailableTokens(), 2);
+});
@@ -0,0 +1,80 @@
+import test from 'ava';
+import {
+  stub,
+} from 'sinon';
+import {
+  createVirtualClock,
+} from '../../../src/factories/createVirtualClock';
+
+test('starts at `startTime`', (t) => {
+  const clock = createVirtualClock(1_000);
+
+  t.is(clock.now(), 1_000);
+});
+
+test('moves the time only when it is advanced', async (t) => {
+  const clock = createVirtualClock();
+
+  t.is(clock.now(), 0);
+
+  await clock.advanceBy(500);
+
+  t.is(clock.now(), 500);
+});
+
+test('fires the due timers in order', async (t) => {
+  const clock = createVirtualClock();
+
+  const calls: string[] = [];
+
+  clock.setTimeout(() => {
+    calls.push('b:' + clock.now());
+  }, 200);
+
+  clock.setTimeout(() => {
+    calls.push('a:' + clock.now());
+  }, 100);
+
+  clock.setTimeout(() => {
+    calls.push('c:' + clock.now());
+  }, 300);
+
+  await clock.advanceBy(200);
+
+  t.deepEqual(calls, [
+    'a:100',
+    'b:200',
+  ]);
+
+  t.is(clock.getTimerCount(), 1);
+});
+
+test('fires the timers created by the fired timers', async (t) => {
+  const clock = createVirtualClock();
+
+  const callback = stub();
+
+  clock.setTimeout(() => {
+    void Promise.resolve().then(() => {
+      clock.setTimeout(callback, 100);
+    });
+  }, 100);
+
+  await clock.advanceBy(200);
+
+  t.true(callback.calledOnce);
+});
+
+test('does not fire cleared timers', async (t) => {
+  const clock = createVirtualClock();
+
+  const callback = stub();
+
+  const timer = clock.setTimeout(callback, 100);
+
+  timer.clear();
+
+  await clock.advanceBy(200);
+
+  t.false(callback.called);
+});
@@ -0,0 +1,79 @@
+import test from 'ava';
+import delay from 'delay';
+import {
+  stub,
+} from 'sinon';
+import {
+  handleShutdownSignals,
+} from '../../../src/routines/handleShutdownSignals';
+
+// Prevents the signals from being re-raised, i.e. from terminating the test process.
+const noop = () => {};
+
+test.before(() => {
+  process.on('SIGTERM', noop);
+  process.on('SIGUSR2', noop);
+});
+
+test.after(() => {
+  process.off('SIGTERM', noop);
+  process.off('SIGUSR2', noop);
+});
+
+test('terminates Planton when the process receives a signal', async (t) => {
+  const terminate = stub()
+    .resolves();
+
+  const removeListeners = handleShutdownSignals({
+    terminate,
+  }, {
+    timeout: 1_000,
+  });
+
+  process.emit('SIGTERM', 'SIGTERM');
+
+  await delay(10);
+
+  t.is(terminate.callCount, 1);
+  t.deepEqual(terminate.firstCall.firstArg, {
+    timeout: 1_000,
+  });
+
+  removeListeners();
+});
+
+test('handles the signal only once', async (t) => {
+  const terminate = stub()
+    .resolves();
+
+  handleShutdownSignals({
+    terminate,
+  }, {
+    signals: [
+      'SIGUSR2',
+    ],
+  });
+
+  process.emit('SIGUSR2', 'SIGUSR2');
+  process.emit('SIGUSR2', 'SIGUSR2');
+
+  await delay(10);
+
+  t.is(terminate.callCount, 1);
+  t.is(process.listenerCount('SIGUSR2'), 1);
+});
+
+test('removes the signal listeners', (t) => {
+  const listenerCount = process.listenerCount('SIGINT');
+
+  const removeListeners = handleShutdownSignals({
+    terminate: stub()
+      .resolves(),
+  });
+
+  t.is(process.listenerCount('SIGINT'), listenerCount + 1);
+
+  removeListeners();
+
+  t.is(process.listenerCount('SIGINT'), listenerCount);
+});